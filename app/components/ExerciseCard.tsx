@@ -3,9 +3,14 @@ import type { Exercise } from '~/types/exercise';
 
 interface ExerciseCardProps {
   exercise: Exercise;
+  // Offer a two-player match alongside the solo workout
+  isVersusAvailable?: boolean;
 }
 
-export function ExerciseCard({ exercise }: ExerciseCardProps) {
+export function ExerciseCard({
+  exercise,
+  isVersusAvailable = false,
+}: ExerciseCardProps) {
   const difficultyColors = {
     beginner: 'bg-green-100 text-green-800',
     intermediate: 'bg-yellow-100 text-yellow-800',
@@ -51,6 +56,14 @@ export function ExerciseCard({ exercise }: ExerciseCardProps) {
       >
         Start Workout
       </Link>
+      {isVersusAvailable && (
+        <Link
+          to={`/versus/${exercise.id}`}
+          className="w-full border border-blue-600 text-blue-600 hover:bg-blue-50 font-medium py-2 px-4 rounded-md transition-colors duration-200 inline-block text-center mt-2"
+        >
+          Challenge a Friend
+        </Link>
+      )}
     </div>
   );
 }
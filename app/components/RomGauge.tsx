@@ -0,0 +1,29 @@
+interface RomGaugeProps {
+  // 0 at the start position, 1 at full range
+  progress: number;
+}
+
+export function RomGauge({ progress }: RomGaugeProps) {
+  const percent = Math.round(progress * 100);
+  const fillColor =
+    percent >= 90
+      ? 'bg-green-400'
+      : percent >= 60
+        ? 'bg-yellow-400'
+        : 'bg-blue-400';
+
+  return (
+    <div className="flex flex-col items-center text-white">
+      <div className="relative w-4 h-40 bg-gray-700/70 rounded-full overflow-hidden">
+        <div
+          className={`absolute bottom-0 left-0 w-full rounded-full transition-[height] duration-100 ${fillColor}`}
+          style={{ height: `${percent}%` }}
+        />
+        {/* Counts as full range from this mark up */}
+        <div className="absolute top-[10%] left-0 w-full h-0.5 bg-white/80" />
+      </div>
+      <span className="mt-1 text-xs font-semibold">{percent}%</span>
+      <span className="text-[10px] text-gray-300">ROM</span>
+    </div>
+  );
+}
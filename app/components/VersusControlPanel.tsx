@@ -0,0 +1,200 @@
+import { Button } from './Button';
+import type {
+  PlayerLane,
+  VersusMode,
+  VersusSettings,
+} from '~/types/exercise';
+import {
+  PLAYER_LANES,
+  PLAYER_NAMES,
+  RACE_TARGETS,
+  TIME_LIMITS_SECONDS,
+} from '~/utils/versus';
+
+const MODE_OPTIONS: { value: VersusMode; label: string }[] = [
+  { value: 'race', label: 'Race' },
+  { value: 'timed', label: 'Timed' },
+];
+
+interface VersusControlPanelProps {
+  settings: VersusSettings;
+  setSettings: (settings: VersusSettings) => void;
+  currentMessage: string;
+  isMatchActive: boolean;
+  isPoseModelLoading: boolean;
+  isLoading: boolean;
+  hasPermission: boolean;
+  modelError: string | null;
+  reps: Record<PlayerLane, number>;
+  seconds: number;
+  formatTime: (seconds: number) => string;
+  onStart: () => void;
+  onEnd: () => void;
+}
+
+export function VersusControlPanel({
+  settings,
+  setSettings,
+  currentMessage,
+  isMatchActive,
+  isPoseModelLoading,
+  isLoading,
+  hasPermission,
+  modelError,
+  reps,
+  seconds,
+  formatTime,
+  onStart,
+  onEnd,
+}: VersusControlPanelProps) {
+  const goalOptions =
+    settings.mode === 'race'
+      ? RACE_TARGETS.map((target) => ({
+          value: target,
+          label: `${target} reps`,
+          isSelected: settings.targetReps === target,
+          select: () =>
+            setSettings({ ...settings, targetReps: target }),
+        }))
+      : TIME_LIMITS_SECONDS.map((limit) => ({
+          value: limit,
+          label: formatTime(limit),
+          isSelected: settings.durationSeconds === limit,
+          select: () =>
+            setSettings({ ...settings, durationSeconds: limit }),
+        }));
+
+  return (
+    <div className="lg:w-80 bg-gray-800 text-white flex flex-col max-h-[calc(100vh-80px)] overflow-hidden">
+      <div className="flex-1 overflow-y-auto p-6">
+        {/* Match Settings */}
+        <div className="bg-gray-700 rounded-lg p-4 mb-6">
+          <h3 className="text-lg font-semibold mb-3">Match</h3>
+          <div className="grid grid-cols-2 gap-2 mb-3">
+            {MODE_OPTIONS.map((option) => (
+              <button
+                key={option.value}
+                onClick={() =>
+                  setSettings({ ...settings, mode: option.value })
+                }
+                disabled={isMatchActive}
+                className={`${
+                  settings.mode === option.value
+                    ? 'bg-blue-500'
+                    : 'bg-gray-600 hover:bg-gray-500'
+                } rounded-md py-1 text-sm transition-colors focus:outline-none`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {goalOptions.map((option) => (
+              <button
+                key={option.value}
+                onClick={option.select}
+                disabled={isMatchActive}
+                className={`${
+                  option.isSelected
+                    ? 'bg-blue-500'
+                    : 'bg-gray-600 hover:bg-gray-500'
+                } rounded-md py-1 text-sm transition-colors focus:outline-none`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-400 mt-2">
+            {settings.mode === 'race'
+              ? `First to ${settings.targetReps} reps wins`
+              : `Most reps in ${formatTime(settings.durationSeconds)} wins`}
+          </p>
+        </div>
+
+        {/* Scoreboard */}
+        <div className="grid grid-cols-2 gap-4 mb-6">
+          {PLAYER_LANES.map((lane) => (
+            <div
+              key={lane}
+              className="bg-gray-700 rounded-lg p-4 text-center"
+            >
+              <div className="text-3xl font-bold text-blue-400">
+                {reps[lane]}
+              </div>
+              <div className="text-sm text-gray-300">
+                {PLAYER_NAMES[lane]}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="bg-gray-700 rounded-lg p-4 mb-6 text-center">
+          <div className="text-3xl font-bold text-green-400">
+            {settings.mode === 'timed'
+              ? formatTime(
+                  Math.max(settings.durationSeconds - seconds, 0),
+                )
+              : formatTime(seconds)}
+          </div>
+          <div className="text-sm text-gray-300">
+            {settings.mode === 'timed' ? 'Remaining' : 'Time'}
+          </div>
+        </div>
+
+        {/* Status Message */}
+        <div className="bg-gray-700 rounded-lg p-4 mb-6">
+          <h3 className="text-lg font-semibold mb-2">Status</h3>
+          <p className="text-blue-400">{currentMessage}</p>
+        </div>
+
+        {/* Model Error */}
+        {modelError && (
+          <div className="bg-red-700 rounded-lg p-4 mb-6">
+            <h3 className="text-lg font-semibold mb-2">AI Error</h3>
+            <p className="text-red-200 text-sm">{modelError}</p>
+          </div>
+        )}
+
+        {/* Controls */}
+        <div className="space-y-3 mb-6">
+          {isMatchActive ? (
+            <Button
+              onClick={onEnd}
+              variant="secondary"
+              className="w-full"
+            >
+              End Match
+            </Button>
+          ) : (
+            <Button
+              onClick={onStart}
+              disabled={
+                !hasPermission ||
+                isLoading ||
+                isPoseModelLoading ||
+                !!modelError
+              }
+              className="w-full"
+            >
+              {isPoseModelLoading
+                ? 'Loading AI...'
+                : modelError
+                  ? 'AI Error - Check Settings'
+                  : 'Start Match'}
+            </Button>
+          )}
+        </div>
+
+        {/* Instructions */}
+        <div className="bg-gray-700 rounded-lg p-4">
+          <h3 className="text-lg font-semibold mb-3">Instructions</h3>
+          <ul className="space-y-2 text-sm text-gray-300">
+            <li>Stand side by side, one player in each half</li>
+            <li>Step far enough back that both bodies are visible</li>
+            <li>Be in your own half when the match starts</li>
+          </ul>
+        </div>
+      </div>
+    </div>
+  );
+}
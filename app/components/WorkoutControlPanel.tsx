@@ -1,5 +1,31 @@
 import { Button } from './Button';
-import type { Exercise } from '~/types/exercise';
+import type {
+  Exercise,
+  RepStrictness,
+  SideRepCounts,
+} from '~/types/exercise';
+import { isRepQualityScored } from '~/utils/poseAnalysis/repQuality';
+import type { SymmetrySummary } from '~/utils/poseAnalysis/symmetry';
+import type {
+  FatigueEstimate,
+  FatigueLevel,
+} from '~/utils/poseAnalysis/fatigue';
+
+const FATIGUE_DISPLAY: Record<
+  FatigueLevel,
+  { label: string; color: string }
+> = {
+  fresh: { label: 'Fresh', color: 'text-green-400' },
+  moderate: { label: 'Slowing', color: 'text-yellow-400' },
+  high: { label: 'Fatigued', color: 'text-red-400' },
+};
+
+const STRICTNESS_OPTIONS: { value: RepStrictness; label: string }[] =
+  [
+    { value: 'lenient', label: 'Lenient' },
+    { value: 'standard', label: 'Standard' },
+    { value: 'strict', label: 'Strict' },
+  ];
 
 interface WorkoutControlPanelProps {
   exercise: Exercise;
@@ -7,17 +33,42 @@ interface WorkoutControlPanelProps {
   isWorkoutActive: boolean;
   isAudioEnabled: boolean;
   setIsAudioEnabled: (enabled: boolean) => void;
+  isFatigueCueEnabled: boolean;
+  setIsFatigueCueEnabled: (enabled: boolean) => void;
+  isGestureControlEnabled: boolean;
+  setIsGestureControlEnabled: (enabled: boolean) => void;
+  isVoiceControlSupported: boolean;
+  isVoiceControlEnabled: boolean;
+  setIsVoiceControlEnabled: (enabled: boolean) => void;
+  // Paused while the coach is speaking
+  isVoiceListening: boolean;
+  voiceControlError: string | null;
+  strictness: RepStrictness;
+  setStrictness: (strictness: RepStrictness) => void;
+  // Freestyle changes exercise mid-session, so there is nothing to calibrate for
+  isCalibrationAvailable: boolean;
+  isCalibrating: boolean;
+  isCalibrated: boolean;
+  isCalibrationRequested: boolean;
+  setCalibrationRequested: (requested: boolean) => void;
+  onClearCalibration: () => void;
   isPoseModelLoading: boolean;
   isAILoading: boolean;
   isLoading: boolean;
   hasPermission: boolean;
   modelError: string | null;
   repCount: number;
+  sideRepCounts?: SideRepCounts;
+  holdSeconds?: number;
+  repsPerMinute?: number;
+  symmetry?: SymmetrySummary | null;
+  fatigue?: FatigueEstimate | null;
   seconds: number;
   formatTime: (seconds: number) => string;
   onStart: () => void;
   onPause: () => void;
   onResume: () => void;
+  onCancelCalibration: () => void;
   onEnd: () => void;
 }
 
@@ -27,17 +78,40 @@ export function WorkoutControlPanel({
   isWorkoutActive,
   isAudioEnabled,
   setIsAudioEnabled,
+  isFatigueCueEnabled,
+  setIsFatigueCueEnabled,
+  isGestureControlEnabled,
+  setIsGestureControlEnabled,
+  isVoiceControlSupported,
+  isVoiceControlEnabled,
+  setIsVoiceControlEnabled,
+  isVoiceListening,
+  voiceControlError,
+  strictness,
+  setStrictness,
+  isCalibrationAvailable,
+  isCalibrating,
+  isCalibrated,
+  isCalibrationRequested,
+  setCalibrationRequested,
+  onClearCalibration,
   isPoseModelLoading,
   isAILoading,
   isLoading,
   hasPermission,
   modelError,
   repCount,
+  sideRepCounts,
+  holdSeconds,
+  repsPerMinute,
+  symmetry,
+  fatigue,
   seconds,
   formatTime,
   onStart,
   onPause,
   onResume,
+  onCancelCalibration,
   onEnd,
 }: WorkoutControlPanelProps) {
   return (
@@ -64,16 +138,190 @@ export function WorkoutControlPanel({
                 />
               </button>
             </div>
+            {(exercise.trackingMode ?? 'reps') === 'reps' && (
+              <div className="flex items-center justify-between">
+                <span>Fatigue Cues</span>
+                <button
+                  onClick={() =>
+                    setIsFatigueCueEnabled(!isFatigueCueEnabled)
+                  }
+                  className={`${
+                    isFatigueCueEnabled
+                      ? 'bg-blue-500'
+                      : 'bg-gray-600'
+                  } relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none`}
+                >
+                  <span
+                    className={`${
+                      isFatigueCueEnabled
+                        ? 'translate-x-6'
+                        : 'translate-x-1'
+                    } inline-block h-4 w-4 transform rounded-full bg-white transition-transform`}
+                  />
+                </button>
+              </div>
+            )}
           </div>
         </div>
 
+        {/* Hands-Free Control */}
+        <div className="bg-gray-700 rounded-lg p-4 mb-6">
+          <h3 className="text-lg font-semibold mb-3">
+            Hands-Free Control
+          </h3>
+          <div className="flex items-center justify-between">
+            <span>Gestures</span>
+            <button
+              onClick={() =>
+                setIsGestureControlEnabled(!isGestureControlEnabled)
+              }
+              disabled={isCalibrating}
+              className={`${
+                isGestureControlEnabled
+                  ? 'bg-blue-500'
+                  : 'bg-gray-600'
+              } relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none`}
+            >
+              <span
+                className={`${
+                  isGestureControlEnabled
+                    ? 'translate-x-6'
+                    : 'translate-x-1'
+                } inline-block h-4 w-4 transform rounded-full bg-white transition-transform`}
+              />
+            </button>
+          </div>
+          {isGestureControlEnabled && (
+            <p className="text-xs text-gray-400 mt-2">
+              Hold both hands above your head to start or resume. Hold
+              a T-pose to pause, and again to end.
+            </p>
+          )}
+          {isVoiceControlSupported && (
+            <div className="flex items-center justify-between mt-3">
+              <span>Voice commands</span>
+              <button
+                onClick={() =>
+                  setIsVoiceControlEnabled(!isVoiceControlEnabled)
+                }
+                className={`${
+                  isVoiceControlEnabled
+                    ? 'bg-blue-500'
+                    : 'bg-gray-600'
+                } relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none`}
+              >
+                <span
+                  className={`${
+                    isVoiceControlEnabled
+                      ? 'translate-x-6'
+                      : 'translate-x-1'
+                  } inline-block h-4 w-4 transform rounded-full bg-white transition-transform`}
+                />
+              </button>
+            </div>
+          )}
+          {isVoiceControlEnabled &&
+            (voiceControlError ? (
+              <p className="text-xs text-red-300 mt-2">
+                {voiceControlError}
+              </p>
+            ) : (
+              <p className="text-xs text-gray-400 mt-2">
+                {isVoiceListening
+                  ? 'Listening - say "start", "pause", "resume", "finish", "how many reps" or "mute"'
+                  : 'Listening again once the coach stops speaking'}
+              </p>
+            ))}
+        </div>
+
+        {/* Rep Strictness - only scored exercises can reject reps */}
+        {isRepQualityScored(exercise) && (
+          <div className="bg-gray-700 rounded-lg p-4 mb-6">
+            <h3 className="text-lg font-semibold mb-3">
+              Rep Strictness
+            </h3>
+            <div className="grid grid-cols-3 gap-2">
+              {STRICTNESS_OPTIONS.map((option) => (
+                <button
+                  key={option.value}
+                  onClick={() => setStrictness(option.value)}
+                  className={`${
+                    strictness === option.value
+                      ? 'bg-blue-500'
+                      : 'bg-gray-600 hover:bg-gray-500'
+                  } rounded-md py-1 text-sm transition-colors focus:outline-none`}
+                >
+                  {option.label}
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-gray-400 mt-2">
+              Low quality reps are not counted on stricter settings
+            </p>
+          </div>
+        )}
+
+        {/* Calibration */}
+        {isCalibrationAvailable && (
+          <div className="bg-gray-700 rounded-lg p-4 mb-6">
+            <h3 className="text-lg font-semibold mb-3">
+              Calibration
+            </h3>
+            <div className="flex items-center justify-between">
+              <span>
+                {isCalibrated ? 'Recalibrate' : 'Calibrate'} before
+                starting
+              </span>
+              <button
+                onClick={() =>
+                  setCalibrationRequested(!isCalibrationRequested)
+                }
+                disabled={isCalibrating}
+                className={`${
+                  isCalibrationRequested
+                    ? 'bg-blue-500'
+                    : 'bg-gray-600'
+                } relative inline-flex h-6 w-11 items-center rounded-full transition-colors focus:outline-none`}
+              >
+                <span
+                  className={`${
+                    isCalibrationRequested
+                      ? 'translate-x-6'
+                      : 'translate-x-1'
+                  } inline-block h-4 w-4 transform rounded-full bg-white transition-transform`}
+                />
+              </button>
+            </div>
+            <p className="text-xs text-gray-400 mt-2">
+              {isCalibrated ? (
+                <>
+                  Thresholds are tuned to your body.{' '}
+                  <button
+                    onClick={onClearCalibration}
+                    disabled={isCalibrating}
+                    className="underline hover:text-gray-200"
+                  >
+                    Reset
+                  </button>
+                </>
+              ) : (
+                'Hold your starting position, then do one slow rep so thresholds fit your body'
+              )}
+            </p>
+          </div>
+        )}
+
         {/* Stats */}
         <div className="grid grid-cols-2 gap-4 mb-6">
           <div className="bg-gray-700 rounded-lg p-4 text-center">
             <div className="text-3xl font-bold text-blue-400">
-              {repCount}
+              {holdSeconds !== undefined
+                ? formatTime(holdSeconds)
+                : repCount}
+            </div>
+            <div className="text-sm text-gray-300">
+              {holdSeconds !== undefined ? 'Hold Time' : 'Reps'}
             </div>
-            <div className="text-sm text-gray-300">Reps</div>
           </div>
           <div className="bg-gray-700 rounded-lg p-4 text-center">
             <div className="text-3xl font-bold text-green-400">
@@ -81,6 +329,66 @@ export function WorkoutControlPanel({
             </div>
             <div className="text-sm text-gray-300">Time</div>
           </div>
+          {repsPerMinute !== undefined && (
+            <div className="bg-gray-700 rounded-lg p-4 text-center col-span-2">
+              <div className="text-3xl font-bold text-yellow-400">
+                {repsPerMinute}
+              </div>
+              <div className="text-sm text-gray-300">Reps / min</div>
+            </div>
+          )}
+          {sideRepCounts && (
+            <>
+              <div className="bg-gray-700 rounded-lg p-4 text-center">
+                <div className="text-2xl font-bold text-blue-300">
+                  {sideRepCounts.left}
+                </div>
+                <div className="text-sm text-gray-300">Left</div>
+              </div>
+              <div className="bg-gray-700 rounded-lg p-4 text-center">
+                <div className="text-2xl font-bold text-blue-300">
+                  {sideRepCounts.right}
+                </div>
+                <div className="text-sm text-gray-300">Right</div>
+              </div>
+            </>
+          )}
+          {fatigue && (
+            <div className="bg-gray-700 rounded-lg p-4 text-center col-span-2">
+              <div
+                className={`text-3xl font-bold ${FATIGUE_DISPLAY[fatigue.level].color}`}
+              >
+                {FATIGUE_DISPLAY[fatigue.level].label}
+              </div>
+              <div className="text-sm text-gray-300">
+                {fatigue.velocityLossPercent !== null &&
+                  `Speed -${fatigue.velocityLossPercent}%`}
+                {fatigue.velocityLossPercent !== null &&
+                  fatigue.rangeLossPercent !== null &&
+                  ' · '}
+                {fatigue.rangeLossPercent !== null &&
+                  `Range -${fatigue.rangeLossPercent}%`}
+              </div>
+            </div>
+          )}
+          {symmetry && (
+            <div className="bg-gray-700 rounded-lg p-4 text-center col-span-2">
+              <div
+                className={`text-3xl font-bold ${
+                  symmetry.laggingSide
+                    ? 'text-orange-400'
+                    : 'text-green-400'
+                }`}
+              >
+                {symmetry.asymmetryPercent}%
+              </div>
+              <div className="text-sm text-gray-300">
+                Left/Right Asymmetry
+                {symmetry.laggingSide &&
+                  ` · ${symmetry.laggingSide} side lagging`}
+              </div>
+            </div>
+          )}
         </div>
 
         {/* Status Message */}
@@ -99,7 +407,15 @@ export function WorkoutControlPanel({
 
         {/* Controls */}
         <div className="space-y-3 mb-6">
-          {!isWorkoutActive && seconds === 0 ? (
+          {isCalibrating ? (
+            <Button
+              onClick={onCancelCalibration}
+              variant="secondary"
+              className="w-full"
+            >
+              Cancel Calibration
+            </Button>
+          ) : !isWorkoutActive && seconds === 0 ? (
             <Button
               onClick={onStart}
               disabled={
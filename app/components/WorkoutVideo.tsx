@@ -1,4 +1,6 @@
 import { LoadingSpinner } from './LoadingSpinner';
+import { RomGauge } from './RomGauge';
+import type { SideRepCounts } from '~/types/exercise';
 
 interface WorkoutVideoProps {
   videoRef: React.RefObject<HTMLVideoElement | null>;
@@ -9,7 +11,12 @@ interface WorkoutVideoProps {
   isPoseModelLoading: boolean;
   isWorkoutActive: boolean;
   repCount: number;
+  sideRepCounts?: SideRepCounts;
+  holdSeconds?: number;
+  romProgress?: number;
   requestPermission: () => void;
+  // Overlays drawn over the video in place of the rep counter
+  children?: React.ReactNode;
 }
 
 export function WorkoutVideo({
@@ -21,7 +28,11 @@ export function WorkoutVideo({
   isPoseModelLoading,
   isWorkoutActive,
   repCount,
+  sideRepCounts,
+  holdSeconds,
+  romProgress,
   requestPermission,
+  children,
 }: WorkoutVideoProps) {
   const handleLoadedMetadata = () => {
     if (videoRef.current) {
@@ -79,7 +90,9 @@ export function WorkoutVideo({
             }}
           />
 
-          {isWorkoutActive && (
+          {children}
+
+          {isWorkoutActive && !children && (
             <>
               <div className="absolute top-4 left-12 bg-black bg-opacity-50 text-white px-3 py-1 rounded-lg text-sm">
                 <div className="flex items-center space-x-2">
@@ -91,10 +104,23 @@ export function WorkoutVideo({
               <div className="absolute top-4 right-16 bg-black bg-opacity-50 text-white px-4 py-2 rounded-lg">
                 <div className="text-center">
                   <div className="text-2xl font-bold text-blue-400">
-                    {repCount}
+                    {holdSeconds !== undefined
+                      ? `${holdSeconds}s`
+                      : repCount}
                   </div>
+                  {sideRepCounts && (
+                    <div className="text-sm font-semibold text-gray-200">
+                      L {sideRepCounts.left} · R {sideRepCounts.right}
+                    </div>
+                  )}
                 </div>
               </div>
+
+              {romProgress !== undefined && (
+                <div className="absolute bottom-6 left-6 bg-black bg-opacity-50 px-2 py-3 rounded-lg">
+                  <RomGauge progress={romProgress} />
+                </div>
+              )}
             </>
           )}
         </>
@@ -5,6 +5,16 @@ export const EXERCISES: Exercise[] = [
     id: 'squats',
     name: 'Squats',
     initialState: 'up',
+    tempo: {
+      turnaround: 'max',
+      eccentricPhase: 'first',
+      minEccentricMs: 2000,
+    },
+    rangeOfMotion: {
+      start: -0.2,
+      target: 0.02,
+      unit: 'relative',
+    },
     description:
       'Lower body strength exercise targeting quadriceps, glutes, and hamstrings',
     targetMuscles: ['Quadriceps', 'Glutes', 'Hamstrings', 'Core'],
@@ -21,6 +31,17 @@ export const EXERCISES: Exercise[] = [
     id: 'bicep-curls',
     name: 'Bicep Curls',
     initialState: 'extended',
+    tempo: {
+      turnaround: 'min',
+      eccentricPhase: 'second',
+      minEccentricMs: 2000,
+    },
+    rangeOfMotion: {
+      start: 160,
+      target: 40,
+      unit: 'degrees',
+    },
+    cheatIssues: ['torso-swing', 'elbow-drift'],
     description: 'Upper body exercise targeting the biceps',
     targetMuscles: ['Biceps', 'Forearms'],
     difficulty: 'beginner',
@@ -32,8 +53,349 @@ export const EXERCISES: Exercise[] = [
       'Slowly lower weights back to starting position',
     ],
   },
+  {
+    id: 'single-arm-curls',
+    name: 'Single-Arm Curls',
+    initialState: 'extended',
+    perSideReps: true,
+    tempo: {
+      turnaround: 'min',
+      eccentricPhase: 'second',
+      minEccentricMs: 2000,
+    },
+    rangeOfMotion: {
+      start: 160,
+      target: 40,
+      unit: 'degrees',
+    },
+    description:
+      'Alternating or one-arm-at-a-time curls with each arm counted separately',
+    targetMuscles: ['Biceps', 'Forearms'],
+    difficulty: 'beginner',
+    instructions: [
+      'Stand facing the camera with both arms visible',
+      'Hold weights with arms extended down',
+      'Curl one arm at a time, alternating or in blocks',
+      'Keep your elbows close to your sides',
+      'Do the same number of reps on each arm',
+    ],
+  },
+  {
+    id: 'push-ups',
+    name: 'Push-ups',
+    initialState: 'up',
+    requiredView: 'side',
+    tempo: {
+      turnaround: 'min',
+      eccentricPhase: 'first',
+      minEccentricMs: 1500,
+    },
+    rangeOfMotion: {
+      start: 165,
+      target: 90,
+      unit: 'degrees',
+    },
+    rules: {
+      measures: {
+        elbowAngle: {
+          kind: 'angle',
+          joints: ['shoulder', 'elbow', 'wrist'],
+          side: 'nearest',
+        },
+        // Ankles are often cut off by the frame, so the body line is
+        // only checked when it is visible
+        hipBend: {
+          kind: 'lineBend',
+          joints: ['shoulder', 'hip', 'ankle'],
+          side: 'nearest',
+        },
+      },
+      trackedMeasure: 'elbowAngle',
+      phases: ['up', 'down'],
+      transitions: [
+        {
+          from: 'up',
+          to: 'down',
+          measure: 'elbowAngle',
+          when: 'below',
+          threshold: 90,
+          calibratedThreshold: 'elbow-bend',
+          feedback: 'Good depth! Now push back up',
+        },
+        {
+          from: 'down',
+          to: 'up',
+          measure: 'elbowAngle',
+          when: 'above',
+          threshold: 155,
+          calibratedThreshold: 'elbow-extension',
+          countsRep: true,
+          feedback: 'Good rep! Keep your body straight',
+        },
+      ],
+      formChecks: [
+        {
+          // Sagging hips load the lower back, piked hips only cost range
+          id: 'hips-sagging',
+          measure: 'hipBend',
+          when: 'above',
+          threshold: 20,
+          feedbackType: 'safety',
+          feedback:
+            'Your hips are sagging, squeeze your glutes and brace your core',
+        },
+        {
+          id: 'hips-piked',
+          measure: 'hipBend',
+          when: 'below',
+          threshold: -20,
+          feedback:
+            'Your hips are too high, lower them into a straight line',
+        },
+      ],
+      cues: [
+        {
+          phase: 'up',
+          measure: 'elbowAngle',
+          when: 'below',
+          threshold: 130,
+          feedback: 'Lower your chest until your elbows reach 90°',
+        },
+        {
+          phase: 'down',
+          measure: 'elbowAngle',
+          when: 'above',
+          threshold: 110,
+          feedback: 'Push all the way up to lock out your arms',
+        },
+      ],
+      visibilityFeedback:
+        'Turn sideways so your arm and body are visible to the camera',
+    },
+    description:
+      'Upper body pressing exercise targeting the chest, shoulders, and triceps',
+    targetMuscles: ['Chest', 'Shoulders', 'Triceps', 'Core'],
+    difficulty: 'intermediate',
+    instructions: [
+      'Turn sideways so the camera sees your whole body from the side',
+      'Start in a high plank with hands under your shoulders',
+      'Keep a straight line from shoulders through hips to ankles',
+      'Lower your chest until your elbows reach 90 degrees',
+      'Push back up until your arms are fully extended',
+    ],
+  },
+  {
+    id: 'lunges',
+    name: 'Alternating Lunges',
+    initialState: 'up',
+    tempo: {
+      turnaround: 'min',
+      eccentricPhase: 'first',
+      minEccentricMs: 1500,
+    },
+    rangeOfMotion: {
+      start: 170,
+      target: 90,
+      unit: 'degrees',
+    },
+    perSideReps: true,
+    description:
+      'Single-leg lower body exercise for strength and balance, counted per leg',
+    targetMuscles: ['Quadriceps', 'Glutes', 'Hamstrings', 'Calves'],
+    difficulty: 'intermediate',
+    instructions: [
+      'Stand tall with your whole body visible to the camera',
+      'Step forward with one leg and lower your back knee towards the floor',
+      'Keep your front knee behind your toes and your torso upright',
+      'Push through your front heel to return to standing',
+      'Alternate legs on every rep',
+    ],
+  },
+  {
+    id: 'overhead-press',
+    name: 'Overhead Press',
+    initialState: 'down',
+    tempo: {
+      turnaround: 'max',
+      eccentricPhase: 'second',
+      minEccentricMs: 1500,
+    },
+    rangeOfMotion: {
+      start: 80,
+      target: 170,
+      unit: 'degrees',
+    },
+    description:
+      'Standing shoulder press from shoulder height to full lockout overhead',
+    targetMuscles: ['Shoulders', 'Triceps', 'Upper Back', 'Core'],
+    difficulty: 'intermediate',
+    instructions: [
+      'Face the camera with the weights at shoulder height',
+      'Brace your core and squeeze your glutes',
+      'Press both arms straight up until your elbows lock out',
+      'Keep your torso upright without leaning back',
+      'Lower the weights back to shoulder height with control',
+    ],
+  },
+  {
+    id: 'lateral-raises',
+    name: 'Lateral Raises',
+    initialState: 'down',
+    tempo: {
+      turnaround: 'max',
+      eccentricPhase: 'second',
+      minEccentricMs: 1500,
+    },
+    rangeOfMotion: {
+      start: 20,
+      target: 85,
+      unit: 'degrees',
+    },
+    // Counted by the generic rules engine, no hand-written analyzer
+    rules: {
+      measures: {
+        armAngle: {
+          kind: 'angle',
+          joints: ['hip', 'shoulder', 'elbow'],
+          side: 'average',
+        },
+        elbowAngle: {
+          kind: 'angle',
+          joints: ['shoulder', 'elbow', 'wrist'],
+          side: 'min',
+        },
+      },
+      trackedMeasure: 'armAngle',
+      phases: ['down', 'up'],
+      transitions: [
+        {
+          from: 'down',
+          to: 'up',
+          measure: 'armAngle',
+          when: 'above',
+          threshold: 75,
+          feedback: 'Good height! Lower slowly',
+        },
+        {
+          from: 'up',
+          to: 'down',
+          measure: 'armAngle',
+          when: 'below',
+          threshold: 30,
+          hysteresis: 5,
+          countsRep: true,
+          feedback: 'Great rep! Raise again',
+        },
+      ],
+      formChecks: [
+        {
+          id: 'arms-too-high',
+          measure: 'armAngle',
+          when: 'above',
+          threshold: 110,
+          phases: ['up'],
+          feedback: 'Stop at shoulder height',
+        },
+        {
+          id: 'bent-elbows',
+          measure: 'elbowAngle',
+          when: 'below',
+          threshold: 130,
+          feedback: 'Keep your arms almost straight',
+        },
+      ],
+      visibilityFeedback:
+        'Face the camera so both arms and hips are visible',
+    },
+    description:
+      'Shoulder isolation raising straight arms out to the sides',
+    targetMuscles: ['Shoulders', 'Upper Back'],
+    difficulty: 'beginner',
+    instructions: [
+      'Face the camera with the weights by your sides',
+      'Keep a slight bend in your elbows',
+      'Raise both arms out to the sides up to shoulder height',
+      "Don't swing or shrug the weights up",
+      'Lower the weights back to your sides with control',
+    ],
+  },
+  {
+    id: 'plank',
+    name: 'Plank',
+    initialState: 'resting',
+    requiredView: 'side',
+    trackingMode: 'hold',
+    description:
+      'Isometric core hold - only time with a straight body line counts',
+    targetMuscles: ['Core', 'Shoulders', 'Glutes'],
+    difficulty: 'beginner',
+    instructions: [
+      'Turn sideways so the camera sees your whole body from the side',
+      'Rest on your forearms or hands with elbows under your shoulders',
+      'Keep a straight line from shoulders through hips to ankles',
+      "Don't let your hips drop or pike up",
+      'The clock pauses whenever your form breaks',
+    ],
+  },
+  {
+    id: 'wall-sit',
+    name: 'Wall Sit',
+    initialState: 'resting',
+    requiredView: 'side',
+    trackingMode: 'hold',
+    description:
+      'Isometric leg hold against a wall with thighs parallel to the floor',
+    targetMuscles: ['Quadriceps', 'Glutes', 'Calves'],
+    difficulty: 'beginner',
+    instructions: [
+      'Stand side-on to the camera with your back against a wall',
+      'Slide down until your knees are bent at 90 degrees',
+      'Keep your back flat against the wall',
+      'Hold the position with your weight in your heels',
+      'The clock pauses whenever your form breaks',
+    ],
+  },
+  {
+    id: 'jumping-jacks',
+    name: 'Jumping Jacks',
+    initialState: 'closed',
+    trackingMode: 'cadence',
+    // Less lag at rest so fast reps don't get smoothed away
+    poseFilter: { minCutoff: 3, beta: 8 },
+    description:
+      'Full-body cardio movement with live reps per minute tracking',
+    targetMuscles: ['Calves', 'Shoulders', 'Glutes', 'Cardio'],
+    difficulty: 'beginner',
+    instructions: [
+      'Face the camera with your whole body in view',
+      'Start with feet together and arms by your sides',
+      'Jump your feet out wide while raising your hands overhead',
+      'Jump back to the start with arms down at your sides',
+      'Keep a steady rhythm - your reps per minute are shown live',
+    ],
+  },
 ];
 
+/**
+ * Placeholder for freestyle sessions, the actual exercise is recognised
+ * from the movement and changes whenever the user switches
+ */
+export const FREESTYLE_EXERCISE: Exercise = {
+  id: 'freestyle',
+  name: 'Freestyle',
+  initialState: 'up',
+  description:
+    'Move between exercises without leaving the workout - each one is recognised automatically and logged as its own set',
+  targetMuscles: ['Full Body'],
+  difficulty: 'beginner',
+  instructions: [
+    'Stand far enough back that your whole body is visible',
+    'Start any squat, lunge, curl, press, push-up or jumping jack set',
+    'Do a couple of reps so the movement can be recognised',
+    'Switch exercises whenever you like - a new set starts automatically',
+  ],
+};
+
 export const getExerciseById = (id: string): Exercise | undefined => {
   return EXERCISES.find((exercise) => exercise.id === id);
 };
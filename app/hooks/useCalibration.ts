@@ -0,0 +1,144 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import type {
+  CalibrationBaseline,
+  Exercise,
+  Pose,
+} from '~/types/exercise';
+import type {
+  CalibrationPhase,
+  CalibrationState,
+} from '~/utils/calibration';
+import {
+  createCalibrationState,
+  updateCalibration,
+} from '~/utils/calibration';
+
+interface UseCalibrationReturn {
+  baseline: CalibrationBaseline | null;
+  // Current step while calibrating, null otherwise
+  phase: CalibrationPhase | null;
+  isCalibrationRequested: boolean;
+  setCalibrationRequested: (requested: boolean) => void;
+  // Resolves with the new baseline once the reference rep is done,
+  // or with null when calibration is cancelled
+  calibrate: () => Promise<CalibrationBaseline | null>;
+  cancelCalibration: () => void;
+  // Returns true when the frame was used for calibration
+  processFrame: (poses: Pose[]) => boolean;
+  clearCalibration: () => void;
+}
+
+function getStorageKey(exercise: Exercise): string {
+  return `visionflex:calibration:${exercise.id}`;
+}
+
+/**
+ * Optional per-user calibration, remembered per exercise until redone
+ */
+export function useCalibration(
+  exercise: Exercise,
+): UseCalibrationReturn {
+  const [baseline, setBaseline] =
+    useState<CalibrationBaseline | null>(null);
+  const [phase, setPhase] = useState<CalibrationPhase | null>(null);
+  const [isCalibrationRequested, setCalibrationRequested] =
+    useState(false);
+
+  // Frames arrive from the animation loop, so progress lives in refs
+  const calibrationRef = useRef<CalibrationState | null>(null);
+  const resolveRef = useRef<
+    ((baseline: CalibrationBaseline | null) => void) | null
+  >(null);
+
+  // Storage is only available in the browser, so load after mount
+  useEffect(() => {
+    const stored = window.localStorage.getItem(
+      getStorageKey(exercise),
+    );
+    // Exercises can change mid-session, never carry over another baseline
+    if (!stored) {
+      setBaseline(null);
+      return;
+    }
+
+    try {
+      setBaseline(JSON.parse(stored));
+    } catch (error) {
+      console.error('Ignoring unreadable calibration:', error);
+      setBaseline(null);
+    }
+  }, [exercise]);
+
+  const calibrate = useCallback(() => {
+    calibrationRef.current = createCalibrationState(Date.now());
+    setPhase('neutral');
+
+    return new Promise<CalibrationBaseline | null>((resolve) => {
+      resolveRef.current = resolve;
+    });
+  }, []);
+
+  const cancelCalibration = useCallback(() => {
+    if (!calibrationRef.current) return;
+
+    calibrationRef.current = null;
+    setPhase(null);
+    resolveRef.current?.(null);
+    resolveRef.current = null;
+  }, []);
+
+  // Don't leave a workout start waiting after leaving the page
+  useEffect(() => {
+    return () => {
+      resolveRef.current?.(null);
+      resolveRef.current = null;
+    };
+  }, []);
+
+  const processFrame = useCallback(
+    (poses: Pose[]) => {
+      const current = calibrationRef.current;
+      if (!current) return false;
+      if (poses.length === 0) return true;
+
+      const next = updateCalibration(current, poses[0], Date.now());
+      if (next.phase !== current.phase) {
+        setPhase(next.phase);
+      }
+
+      if (!next.baseline) {
+        calibrationRef.current = next;
+        return true;
+      }
+
+      calibrationRef.current = null;
+      setPhase(null);
+      setBaseline(next.baseline);
+      setCalibrationRequested(false);
+      window.localStorage.setItem(
+        getStorageKey(exercise),
+        JSON.stringify(next.baseline),
+      );
+      resolveRef.current?.(next.baseline);
+      resolveRef.current = null;
+      return true;
+    },
+    [exercise],
+  );
+
+  const clearCalibration = useCallback(() => {
+    setBaseline(null);
+    window.localStorage.removeItem(getStorageKey(exercise));
+  }, [exercise]);
+
+  return {
+    baseline,
+    phase,
+    isCalibrationRequested,
+    setCalibrationRequested,
+    calibrate,
+    cancelCalibration,
+    processFrame,
+    clearCalibration,
+  };
+}
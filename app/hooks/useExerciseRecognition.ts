@@ -0,0 +1,48 @@
+import { useState, useCallback, useRef } from 'react';
+import type { Exercise, Pose } from '~/types/exercise';
+import { getExerciseById } from '~/constants/exercises';
+import {
+  createRecognitionState,
+  updateRecognition,
+} from '~/utils/exerciseRecognition';
+
+interface UseExerciseRecognitionReturn {
+  // Exercise the user is currently doing, null until one is recognised
+  exercise: Exercise | null;
+  // Reps done while the current exercise was being recognised
+  recognisedReps: number;
+  processFrame: (poses: Pose[]) => void;
+  resetRecognition: () => void;
+}
+
+/**
+ * Recognise the exercise being done from the last few seconds of poses
+ */
+export function useExerciseRecognition(): UseExerciseRecognitionReturn {
+  const [exercise, setExercise] = useState<Exercise | null>(null);
+  const [recognisedReps, setRecognisedReps] = useState(0);
+
+  // Frames arrive from the animation loop, so progress lives in a ref
+  const recognitionRef = useRef(createRecognitionState());
+
+  const processFrame = useCallback((poses: Pose[]) => {
+    if (poses.length === 0) return;
+
+    const current = recognitionRef.current;
+    const next = updateRecognition(current, poses[0], Date.now());
+    recognitionRef.current = next;
+
+    if (next.exerciseId && next.exerciseId !== current.exerciseId) {
+      setExercise(getExerciseById(next.exerciseId) ?? null);
+      setRecognisedReps(next.recognisedReps);
+    }
+  }, []);
+
+  const resetRecognition = useCallback(() => {
+    recognitionRef.current = createRecognitionState();
+    setExercise(null);
+    setRecognisedReps(0);
+  }, []);
+
+  return { exercise, recognisedReps, processFrame, resetRecognition };
+}
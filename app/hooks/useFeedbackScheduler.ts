@@ -0,0 +1,52 @@
+import { useCallback, useRef } from 'react';
+import type { FeedbackMessage } from '~/types/feedback';
+import {
+  createFeedbackSchedulerState,
+  scheduleFeedback,
+} from '~/utils/feedbackScheduler';
+
+export type FeedbackListener = (message: FeedbackMessage) => void;
+
+interface UseFeedbackSchedulerReturn {
+  // Returns whether the message made it through
+  submit: (message: FeedbackMessage) => boolean;
+  // Returns an unsubscribe function
+  subscribe: (listener: FeedbackListener) => () => void;
+  resetScheduler: () => void;
+}
+
+/**
+ * Single gate for coaching messages, shared by the on-screen status and speech
+ */
+export function useFeedbackScheduler(): UseFeedbackSchedulerReturn {
+  const schedulerStateRef = useRef(createFeedbackSchedulerState());
+  const listenersRef = useRef(new Set<FeedbackListener>());
+
+  const submit = useCallback((message: FeedbackMessage) => {
+    if (!message.text) return false;
+
+    const nextState = scheduleFeedback(
+      schedulerStateRef.current,
+      message,
+      Date.now(),
+    );
+    if (!nextState) return false;
+
+    schedulerStateRef.current = nextState;
+    listenersRef.current.forEach((listener) => listener(message));
+    return true;
+  }, []);
+
+  const subscribe = useCallback((listener: FeedbackListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  const resetScheduler = useCallback(() => {
+    schedulerStateRef.current = createFeedbackSchedulerState();
+  }, []);
+
+  return { submit, subscribe, resetScheduler };
+}
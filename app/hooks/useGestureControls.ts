@@ -0,0 +1,70 @@
+import { useCallback, useRef } from 'react';
+import type { Pose } from '~/types/exercise';
+import {
+  createGestureHoldState,
+  detectGesture,
+  getGestureHoldProgress,
+  updateGestureHold,
+} from '~/utils/gestureControls';
+import type { Gesture } from '~/utils/gestureControls';
+
+export interface GestureAction {
+  // Shown next to the progress ring, e.g. "Pause"
+  label: string;
+  run: () => void;
+}
+
+export type GestureActions = Partial<Record<Gesture, GestureAction>>;
+
+export interface GestureHoldProgress {
+  label: string;
+  // 0 when the gesture is first seen, 1 when it fires
+  progress: number;
+}
+
+interface UseGestureControlsReturn {
+  // Progress of the gesture being held, null when there is none
+  processFrame: (poses: Pose[]) => GestureHoldProgress | null;
+}
+
+/**
+ * Run workout actions from gestures held in front of the camera. Only
+ * gestures with an action right now are tracked
+ */
+export function useGestureControls(
+  actions: GestureActions,
+): UseGestureControlsReturn {
+  // Frames arrive from the animation loop, so progress lives in a ref
+  const holdRef = useRef(createGestureHoldState());
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  const processFrame = useCallback(
+    (poses: Pose[]): GestureHoldProgress | null => {
+      const now = Date.now();
+      const detected =
+        poses.length > 0 ? detectGesture(poses[0]) : null;
+      const gesture =
+        detected && actionsRef.current[detected] ? detected : null;
+
+      const hold = updateGestureHold(holdRef.current, gesture, now);
+      holdRef.current = hold;
+
+      const action = hold.gesture && actionsRef.current[hold.gesture];
+      if (!action || hold.hasFired) {
+        return null;
+      }
+
+      const progress = getGestureHoldProgress(hold, now);
+      if (progress >= 1) {
+        holdRef.current = { ...hold, hasFired: true };
+        action.run();
+      }
+
+      return { label: action.label, progress };
+    },
+    [],
+  );
+
+  return { processFrame };
+}
@@ -0,0 +1,37 @@
+import { useCallback, useRef } from 'react';
+import type { Pose } from '~/types/exercise';
+import {
+  createPlayerTargets,
+  splitPlayerPoses,
+  updatePlayerTargets,
+} from '~/utils/versus';
+import type { PlayerPoses } from '~/utils/versus';
+
+interface UsePlayerTargetsReturn {
+  processFrame: (poses: Pose[]) => PlayerPoses;
+  // Forget both players, e.g. when a new match starts
+  resetTargets: () => void;
+}
+
+/**
+ * Follow the two players of a head-to-head match by track ID
+ */
+export function usePlayerTargets(): UsePlayerTargetsReturn {
+  // Frames arrive from the animation loop, so the players live in a ref
+  const targetsRef = useRef(createPlayerTargets());
+
+  const processFrame = useCallback((poses: Pose[]) => {
+    targetsRef.current = updatePlayerTargets(
+      targetsRef.current,
+      poses,
+      Date.now(),
+    );
+    return splitPlayerPoses(targetsRef.current, poses);
+  }, []);
+
+  const resetTargets = useCallback(() => {
+    targetsRef.current = createPlayerTargets();
+  }, []);
+
+  return { processFrame, resetTargets };
+}
@@ -47,13 +47,14 @@ export function usePoseDetection(): UsePoseDetectionReturn {
 
       console.log('TensorFlow.js ready, loading MoveNet...');
 
-      // Create detector with optimized settings
+      // Create detector with optimized settings. Everyone in view is
+      // detected and tracked so bystanders can be told apart from the user
       const detectorConfig = {
         modelType:
-          poseDetection.movenet.modelType.SINGLEPOSE_LIGHTNING,
+          poseDetection.movenet.modelType.MULTIPOSE_LIGHTNING,
         enableSmoothing: true,
         multiPoseMaxDimension: 256,
-        enableTracking: false,
+        enableTracking: true,
         trackerType: poseDetection.TrackerType.BoundingBox,
       };
 
@@ -98,6 +99,7 @@ export function usePoseDetection(): UsePoseDetectionReturn {
             confidence: kp.score || 0,
           })),
           score: pose.score || 0,
+          id: pose.id,
         }));
       } catch (error) {
         console.error('Error detecting pose:', error);
@@ -0,0 +1,63 @@
+import { useCallback, useMemo, useRef } from 'react';
+import type { Pose } from '~/types/exercise';
+import type {
+  KeypointFilterState,
+  PoseFilterSettings,
+} from '~/types/poseFilter';
+import {
+  DEFAULT_POSE_FILTER_SETTINGS,
+  filterPose,
+} from '~/utils/poseFilter';
+
+interface UsePoseFilterReturn {
+  filterPoses: (poses: Pose[]) => Pose[];
+  resetFilter: () => void;
+}
+
+/**
+ * Temporal smoothing between pose detection and rep counting
+ */
+export function usePoseFilter(
+  // Should be a stable object, e.g. from the exercise definition
+  overrides?: Partial<PoseFilterSettings>,
+): UsePoseFilterReturn {
+  // Filter state per tracked person, by track ID or detection order
+  const filterStateRef = useRef(
+    new Map<number, KeypointFilterState[]>(),
+  );
+
+  const settings = useMemo(
+    () => ({ ...DEFAULT_POSE_FILTER_SETTINGS, ...overrides }),
+    [overrides],
+  );
+
+  const filterPoses = useCallback(
+    (poses: Pose[]) => {
+      // Keep the state through dropped frames, stale state restarts itself
+      if (poses.length === 0) return poses;
+
+      const now = Date.now();
+      const keys = poses.map((pose, index) => pose.id ?? index);
+      const filtered = poses.map((pose, index) =>
+        filterPose(
+          pose,
+          filterStateRef.current.get(keys[index]),
+          settings,
+          now,
+        ),
+      );
+
+      filterStateRef.current = new Map(
+        filtered.map((result, index) => [keys[index], result.state]),
+      );
+      return filtered.map((result) => result.pose);
+    },
+    [settings],
+  );
+
+  const resetFilter = useCallback(() => {
+    filterStateRef.current = new Map();
+  }, []);
+
+  return { filterPoses, resetFilter };
+}
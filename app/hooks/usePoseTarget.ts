@@ -0,0 +1,37 @@
+import { useCallback, useRef } from 'react';
+import type { Pose } from '~/types/exercise';
+import {
+  createPoseTargetState,
+  splitTargetPose,
+  updatePoseTarget,
+} from '~/utils/poseTarget';
+import type { PoseTargetSplit } from '~/utils/poseTarget';
+
+interface UsePoseTargetReturn {
+  processFrame: (poses: Pose[]) => PoseTargetSplit;
+  // Keep following the current target for the rest of the session
+  lockTarget: () => void;
+}
+
+/**
+ * Pick the person being coached out of everyone in view and follow them
+ */
+export function usePoseTarget(): UsePoseTargetReturn {
+  // Frames arrive from the animation loop, so the target lives in a ref
+  const targetRef = useRef(createPoseTargetState());
+
+  const processFrame = useCallback((poses: Pose[]) => {
+    targetRef.current = updatePoseTarget(
+      targetRef.current,
+      poses,
+      Date.now(),
+    );
+    return splitTargetPose(targetRef.current, poses);
+  }, []);
+
+  const lockTarget = useCallback(() => {
+    targetRef.current = { ...targetRef.current, isLocked: true };
+  }, []);
+
+  return { processFrame, lockTarget };
+}
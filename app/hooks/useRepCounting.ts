@@ -1,75 +1,136 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useMemo, useRef } from 'react';
 import type {
   Pose,
   RepCounterState,
+  RepEvent,
   Exercise,
+  RepStrictness,
+  CalibrationBaseline,
 } from '~/types/exercise';
-import { processBicepCurlRep } from '~/utils/poseAnalysis/processBicepCurlRep';
-import { processSquatRep } from '~/utils/poseAnalysis/processSquatRep';
+import { getRepAnalyzer } from '~/utils/poseAnalysis/getRepAnalyzer';
+
+export type RepEventListener = (event: RepEvent) => void;
 
 interface UseRepCountingReturn {
   repState: RepCounterState;
   processFrame: (poses: Pose[]) => void;
-  resetCounter: () => void;
+  // Optionally starts from reps already done, e.g. while recognising
+  resetCounter: (initialRepCount?: number) => void;
   getFormFeedback: () => string | null;
+  // Returns an unsubscribe function
+  subscribe: (listener: RepEventListener) => () => void;
 }
 
-export function useRepCounting(
+function createInitialRepState(
   exercise: Exercise,
-): UseRepCountingReturn {
-  const [repState, setRepState] = useState<RepCounterState>({
+  initialRepCount: number = 0,
+): RepCounterState {
+  return {
     currentState: exercise.initialState,
-    repCount: 0,
+    repCount: initialRepCount,
     lastStateChange: Date.now(),
     formFeedback: null,
-  });
+    ...(exercise.perSideReps && {
+      sideRepCounts: { left: 0, right: 0 },
+    }),
+    ...(exercise.trackingMode === 'hold' && { holdTime: 0 }),
+    ...(exercise.trackingMode === 'cadence' && { repTimestamps: [] }),
+  };
+}
+
+export function useRepCounting(
+  exercise: Exercise,
+  strictness?: RepStrictness,
+  calibration?: CalibrationBaseline | null,
+): UseRepCountingReturn {
+  const [repState, setRepState] = useState<RepCounterState>(() =>
+    createInitialRepState(exercise),
+  );
+
+  // Frames are analyzed outside the state updater so events fire exactly once
+  const repStateRef = useRef(repState);
+  const isBodyVisibleRef = useRef(false);
+  const listenersRef = useRef(new Set<RepEventListener>());
+
+  const analyzer = useMemo(
+    () =>
+      getRepAnalyzer(exercise, strictness, calibration ?? undefined),
+    [exercise, strictness, calibration],
+  );
+
+  // The frame loop holds on to processFrame, so read the latest analyzer
+  const analyzerRef = useRef(analyzer);
+  analyzerRef.current = analyzer;
+
+  const emit = useCallback((events: RepEvent[]) => {
+    events.forEach((event) => {
+      listenersRef.current.forEach((listener) => listener(event));
+    });
+  }, []);
+
+  const subscribe = useCallback((listener: RepEventListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
 
   const processFrame = useCallback(
     (poses: Pose[]) => {
-      if (poses.length === 0) return;
+      const analyzer = analyzerRef.current;
+      if (!analyzer) return;
+
+      const isBodyVisible = poses.length > 0;
+      if (isBodyVisible !== isBodyVisibleRef.current) {
+        isBodyVisibleRef.current = isBodyVisible;
+        emit([
+          {
+            type: isBodyVisible ? 'body-found' : 'body-lost',
+            timestamp: Date.now(),
+          },
+        ]);
+      }
+
+      if (!isBodyVisible) return;
       const pose = poses[0];
 
-      setRepState((currentRepState) => {
-        let nextState: RepCounterState;
-
-        switch (exercise.id) {
-          case 'squats':
-            nextState = processSquatRep(pose, currentRepState);
-            break;
-          case 'bicep-curls':
-            nextState = processBicepCurlRep(pose, currentRepState);
-            break;
-          default:
-            return currentRepState;
-        }
-
-        if (nextState.currentState !== currentRepState.currentState) {
-          console.log('New rep state:', nextState);
-        }
-
-        return nextState;
-      });
+      const currentRepState = repStateRef.current;
+      const nextState = analyzer(pose, currentRepState);
+      if (nextState === currentRepState) return;
+
+      if (nextState.currentState !== currentRepState.currentState) {
+        console.log('New rep state:', nextState);
+      }
+
+      repStateRef.current = nextState;
+      setRepState(nextState);
+      emit(nextState.events ?? []);
     },
-    [exercise.id],
+    [emit],
   );
 
   const getFormFeedback = useCallback(() => {
     return repState.formFeedback;
   }, [repState.formFeedback]);
 
-  const resetCounter = useCallback(() => {
-    setRepState({
-      currentState: exercise.initialState,
-      repCount: 0,
-      lastStateChange: Date.now(),
-      formFeedback: null,
-    });
-  }, [exercise.id]);
+  const resetCounter = useCallback(
+    (initialRepCount?: number) => {
+      const initialState = createInitialRepState(
+        exercise,
+        initialRepCount,
+      );
+      repStateRef.current = initialState;
+      isBodyVisibleRef.current = false;
+      setRepState(initialState);
+    },
+    [exercise],
+  );
 
   return {
     repState,
     processFrame,
     resetCounter,
     getFormFeedback,
+    subscribe,
   };
 }
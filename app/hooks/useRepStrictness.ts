@@ -0,0 +1,52 @@
+import { useState, useEffect, useCallback } from 'react';
+import type { Exercise, RepStrictness } from '~/types/exercise';
+
+const STRICTNESS_LEVELS: RepStrictness[] = [
+  'lenient',
+  'standard',
+  'strict',
+];
+
+interface UseRepStrictnessReturn {
+  strictness: RepStrictness;
+  setStrictness: (strictness: RepStrictness) => void;
+}
+
+function getStorageKey(exercise: Exercise): string {
+  return `visionflex:strictness:${exercise.id}`;
+}
+
+/**
+ * Per-exercise rep strictness, remembered between workouts
+ */
+export function useRepStrictness(
+  exercise: Exercise,
+): UseRepStrictnessReturn {
+  const [strictness, setStrictnessState] =
+    useState<RepStrictness>('standard');
+
+  // Storage is only available in the browser, so load after mount
+  useEffect(() => {
+    const stored = window.localStorage.getItem(
+      getStorageKey(exercise),
+    );
+    setStrictnessState(
+      STRICTNESS_LEVELS.includes(stored as RepStrictness)
+        ? (stored as RepStrictness)
+        : 'standard',
+    );
+  }, [exercise]);
+
+  const setStrictness = useCallback(
+    (nextStrictness: RepStrictness) => {
+      setStrictnessState(nextStrictness);
+      window.localStorage.setItem(
+        getStorageKey(exercise),
+        nextStrictness,
+      );
+    },
+    [exercise],
+  );
+
+  return { strictness, setStrictness };
+}
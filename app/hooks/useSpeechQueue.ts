@@ -1,5 +1,7 @@
 import { useRef, useCallback, useEffect } from 'react';
 import type { TextToSpeechHook } from '~/types/speech';
+import type { FeedbackListener } from '~/hooks/useFeedbackScheduler';
+import { FEEDBACK_SETTINGS } from '~/utils/feedbackScheduler';
 
 interface SpeechQueueItem {
   text: string;
@@ -12,13 +14,10 @@ export function useSpeechQueue(
   isWorkoutActive: boolean,
   speak: TextToSpeechHook['speak'],
   isSpeaking: boolean,
-  repCount: number,
-  getFormFeedback: () => string | null,
+  subscribe: (listener: FeedbackListener) => () => void,
 ) {
   const speechQueueRef = useRef<SpeechQueueItem[]>([]);
   const processingQueueRef = useRef(false);
-  const prevRepCountRef = useRef(repCount);
-  const prevFeedbackRef = useRef<string | null>(null);
 
   const processSpeechQueue = useCallback(() => {
     if (
@@ -75,31 +74,26 @@ export function useSpeechQueue(
   useEffect(() => {
     if (!isWorkoutActive || !isAudioEnabled) return;
 
-    if (repCount > prevRepCountRef.current) {
-      queueSpeech(`${repCount}`, 10);
-    }
-    prevRepCountRef.current = repCount;
+    return subscribe((message) => {
+      const settings = FEEDBACK_SETTINGS[message.type];
+      if (!settings.spoken) return;
 
-    const currentFeedback = getFormFeedback();
-    if (
-      currentFeedback &&
-      currentFeedback !== prevFeedbackRef.current
-    ) {
-      queueSpeech(currentFeedback, 5, 1);
-    }
-    prevFeedbackRef.current = currentFeedback;
-  }, [
-    repCount,
-    getFormFeedback,
-    isWorkoutActive,
-    isAudioEnabled,
-    queueSpeech,
-  ]);
+      // Forced messages jump the queue, stale lower priority ones are dropped
+      if (message.force ?? settings.force) {
+        speechQueueRef.current = speechQueueRef.current.filter(
+          (item) => item.priority >= settings.priority,
+        );
+      }
+
+      queueSpeech(
+        message.spokenText ?? message.text,
+        settings.priority,
+      );
+    });
+  }, [subscribe, isWorkoutActive, isAudioEnabled, queueSpeech]);
 
   const resetSpeechQueue = useCallback(() => {
     speechQueueRef.current = [];
-    prevRepCountRef.current = 0;
-    prevFeedbackRef.current = null;
   }, []);
 
   return {
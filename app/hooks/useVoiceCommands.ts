@@ -0,0 +1,89 @@
+import { useState, useEffect, useRef } from 'react';
+import type { SpeechRecognizer } from '~/types/speech';
+import { createBrowserSpeechRecognizer } from '~/utils/speechRecognizer';
+import { parseVoiceCommand } from '~/utils/voiceCommands';
+import type { VoiceCommand } from '~/utils/voiceCommands';
+
+export type VoiceCommandActions = Partial<
+  Record<VoiceCommand, () => void>
+>;
+
+interface UseVoiceCommandsProps {
+  isEnabled: boolean;
+  // The app's own speech must not be heard as commands
+  isSpeaking: boolean;
+  // Only commands with an action right now are acted on
+  commands: VoiceCommandActions;
+  createRecognizer?: () => SpeechRecognizer | null;
+}
+
+interface UseVoiceCommandsReturn {
+  isSupported: boolean;
+  isListening: boolean;
+  error: string | null;
+}
+
+/**
+ * Run workout actions from spoken commands
+ */
+export function useVoiceCommands({
+  isEnabled,
+  isSpeaking,
+  commands,
+  createRecognizer = createBrowserSpeechRecognizer,
+}: UseVoiceCommandsProps): UseVoiceCommandsReturn {
+  const [isSupported, setIsSupported] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const recognizerRef = useRef<SpeechRecognizer | null>(null);
+  const commandsRef = useRef(commands);
+  commandsRef.current = commands;
+
+  // Speech recognition only exists in the browser, so create it after mount
+  useEffect(() => {
+    const recognizer = createRecognizer();
+    recognizerRef.current = recognizer;
+    setIsSupported(recognizer !== null);
+    if (!recognizer) return;
+
+    recognizer.onTranscript = (transcript) => {
+      const command = parseVoiceCommand(transcript);
+      const action = command && commandsRef.current[command];
+      if (action) {
+        action();
+      }
+    };
+    recognizer.onError = (message) => {
+      console.error('Speech recognition error:', message);
+      setError(message);
+    };
+
+    return () => {
+      recognizer.stop();
+      recognizer.onTranscript = null;
+      recognizer.onError = null;
+      recognizerRef.current = null;
+    };
+  }, [createRecognizer]);
+
+  // Turning voice commands back on retries after an error
+  useEffect(() => {
+    if (isEnabled) {
+      setError(null);
+    }
+  }, [isEnabled]);
+
+  const isListening =
+    isEnabled && isSupported && !isSpeaking && error === null;
+  useEffect(() => {
+    const recognizer = recognizerRef.current;
+    if (!recognizer) return;
+
+    if (isListening) {
+      recognizer.start();
+    } else {
+      recognizer.stop();
+    }
+  }, [isListening]);
+
+  return { isSupported, isListening, error };
+}
@@ -1,6 +1,13 @@
 import { useCallback } from 'react';
 import { useNavigate } from 'react-router';
-import type { Exercise } from '~/types/exercise';
+import type {
+  Exercise,
+  RepRecord,
+  SideRepCounts,
+  WorkoutSession,
+  WorkoutSet,
+} from '~/types/exercise';
+import { calculateAverageRepsPerMinute } from '~/utils/poseAnalysis/cadence';
 
 interface UseWorkoutActionsProps {
   exercise: Exercise;
@@ -13,8 +20,15 @@ interface UseWorkoutActionsProps {
   stopLoop: () => void;
   processPoseData: () => Promise<void>;
   resetWorkoutState: () => void;
+  // Run the calibration step first, resolves once it is finished and
+  // with null when it was cancelled
+  isCalibrationRequested: boolean;
+  calibrate: () => Promise<unknown>;
+  cancelCalibration: () => void;
   setMessage: (message: string) => void;
   startWorkout: () => void;
+  pauseWorkout: () => void;
+  resumeWorkout: () => void;
   finishLoading: () => void;
   stopStream: () => void;
   reset: () => void;
@@ -22,6 +36,12 @@ interface UseWorkoutActionsProps {
   pause: () => void;
   seconds: number;
   repCount: number;
+  sideRepCounts?: SideRepCounts;
+  holdSeconds?: number;
+  repTimestamps?: number[];
+  repHistory?: RepRecord[];
+  // Freestyle sessions are summarised per recognised exercise
+  sets?: WorkoutSet[];
 }
 
 export function useWorkoutActions({
@@ -35,8 +55,13 @@ export function useWorkoutActions({
   stopLoop,
   processPoseData,
   resetWorkoutState,
+  isCalibrationRequested,
+  calibrate,
+  cancelCalibration,
   setMessage,
   startWorkout: startWorkoutState,
+  pauseWorkout: pauseWorkoutState,
+  resumeWorkout: resumeWorkoutState,
   finishLoading,
   stopStream,
   reset,
@@ -44,6 +69,11 @@ export function useWorkoutActions({
   pause,
   seconds,
   repCount,
+  sideRepCounts,
+  holdSeconds,
+  repTimestamps,
+  repHistory,
+  sets,
 }: UseWorkoutActionsProps) {
   const navigate = useNavigate();
 
@@ -73,6 +103,16 @@ export function useWorkoutActions({
         }
       }
 
+      if (isCalibrationRequested) {
+        // Frames go to calibration until the reference rep is done
+        finishLoading();
+        startLoop(processPoseData);
+        if (!(await calibrate())) {
+          setMessage('Calibration cancelled');
+          return;
+        }
+      }
+
       resetWorkoutState();
       startLoop(processPoseData);
       startWorkoutState();
@@ -92,6 +132,8 @@ export function useWorkoutActions({
     modelError,
     stream,
     resetWorkoutState,
+    isCalibrationRequested,
+    calibrate,
     startLoop,
     processPoseData,
     startWorkoutState,
@@ -101,9 +143,11 @@ export function useWorkoutActions({
   ]);
 
   const pauseWorkout = useCallback(() => {
+    cancelCalibration();
     stopLoop();
+    pauseWorkoutState();
     pause();
-  }, [stopLoop, pause]);
+  }, [cancelCalibration, stopLoop, pauseWorkoutState, pause]);
 
   const resumeWorkout = useCallback(async () => {
     if (!stream) {
@@ -115,12 +159,14 @@ export function useWorkoutActions({
     }
 
     startLoop(processPoseData);
+    resumeWorkoutState();
     start();
   }, [
     stream,
     ensureStream,
     startLoop,
     processPoseData,
+    resumeWorkoutState,
     start,
     setMessage,
   ]);
@@ -131,20 +177,39 @@ export function useWorkoutActions({
     stopStream();
     reset();
 
-    navigate('/summary', {
-      state: {
-        workoutData: {
+    const timing = {
+      duration: seconds,
+      startTime: new Date(Date.now() - seconds * 1000),
+      endTime,
+    };
+    const workoutData: WorkoutSession = sets
+      ? {
+          exercise,
+          reps: sets.reduce((total, set) => total + set.reps, 0),
+          sets,
+          ...timing,
+        }
+      : {
           exercise,
           reps: repCount,
-          duration: seconds,
-          startTime: new Date(Date.now() - seconds * 1000),
-          endTime,
-        },
-      },
-    });
+          sideReps: sideRepCounts,
+          holdSeconds,
+          averageRepsPerMinute: repTimestamps
+            ? calculateAverageRepsPerMinute(repTimestamps)
+            : undefined,
+          repHistory,
+          ...timing,
+        };
+
+    navigate('/summary', { state: { workoutData } });
   }, [
     exercise,
     repCount,
+    sideRepCounts,
+    holdSeconds,
+    repTimestamps,
+    repHistory,
+    sets,
     seconds,
     stopLoop,
     stopStream,
@@ -8,4 +8,6 @@ export default [
   index('routes/home.tsx'),
   route('workout/:exercise', 'routes/workout.tsx'),
   route('summary', 'routes/summary.tsx'),
+  route('versus/:exercise', 'routes/versus.tsx'),
+  route('versus-summary', 'routes/versus-summary.tsx'),
 ] satisfies RouteConfig;
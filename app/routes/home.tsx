@@ -3,7 +3,8 @@ import { useEffect, useState } from 'react';
 import { ExerciseCard } from '~/components/ExerciseCard';
 import { LoadingSpinner } from '~/components/LoadingSpinner';
 import { Button } from '~/components/Button';
-import { EXERCISES } from '~/constants/exercises';
+import { EXERCISES, FREESTYLE_EXERCISE } from '~/constants/exercises';
+import { isVersusAvailable } from '~/utils/versus';
 
 export function meta({}: Route.MetaArgs) {
   return [
@@ -157,8 +158,13 @@ export default function Home() {
 
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
           {EXERCISES.map((exercise) => (
-            <ExerciseCard key={exercise.id} exercise={exercise} />
+            <ExerciseCard
+              key={exercise.id}
+              exercise={exercise}
+              isVersusAvailable={isVersusAvailable(exercise)}
+            />
           ))}
+          <ExerciseCard exercise={FREESTYLE_EXERCISE} />
         </div>
       </div>
 
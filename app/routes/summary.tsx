@@ -3,6 +3,12 @@ import { useLocation, useNavigate } from 'react-router';
 import { useEffect, useState } from 'react';
 import { Button } from '~/components/Button';
 import type { WorkoutSession } from '~/types/exercise';
+import {
+  calculateAverageTempo,
+  formatTempo,
+} from '~/utils/poseAnalysis/repTempo';
+import { getRepRangeOfMotionPercent } from '~/utils/poseAnalysis/rangeOfMotion';
+import { calculateSymmetrySummary } from '~/utils/poseAnalysis/symmetry';
 
 export function meta({}: Route.MetaArgs) {
   return [
@@ -42,6 +48,33 @@ const getPerformanceMessage = (
   }
 };
 
+const getHoldPerformanceMessage = (
+  seconds: number,
+): { message: string; color: string } => {
+  if (seconds >= 120) {
+    return {
+      message: 'Rock solid! That hold was unbreakable! 🔥',
+      color: 'text-green-600',
+    };
+  } else if (seconds >= 60) {
+    return {
+      message: 'Great hold! A full minute of solid form! 💪',
+      color: 'text-blue-600',
+    };
+  } else if (seconds >= 30) {
+    return {
+      message: "Good effort! You're building real endurance! 👍",
+      color: 'text-yellow-600',
+    };
+  } else {
+    return {
+      message:
+        'Every second counts! Aim a little longer next time! 🚀',
+      color: 'text-purple-600',
+    };
+  }
+};
+
 export default function Summary() {
   const navigate = useNavigate();
   const location = useLocation();
@@ -67,7 +100,77 @@ export default function Summary() {
     return `${minutes}m ${remainingSeconds}s`;
   };
 
-  const performance = getPerformanceMessage(workoutData.reps);
+  // Rejected reps are only in the history, counted reps are in reps
+  const repHistory = workoutData.repHistory ?? [];
+  // Reps rejected by the strictness level don't describe the set
+  const countedRepHistory = repHistory.filter((rep) => rep.counted);
+
+  const averageTempo = calculateAverageTempo(
+    countedRepHistory.map((rep) => rep.tempo),
+  );
+
+  const romSettings = workoutData.exercise.rangeOfMotion;
+  const repRanges = romSettings
+    ? countedRepHistory.flatMap((rep) =>
+        rep.rangeOfMotion
+          ? [
+              {
+                repNumber: rep.repNumber,
+                rangeOfMotion: rep.rangeOfMotion,
+                percent: getRepRangeOfMotionPercent(
+                  rep.rangeOfMotion,
+                  romSettings,
+                ),
+              },
+            ]
+          : [],
+      )
+    : [];
+
+  const rejectedReps = repHistory.filter(
+    (rep) => !rep.counted,
+  ).length;
+  const attemptedReps = workoutData.reps + rejectedReps;
+  // Counted reps done without momentum, for exercises that detect it
+  const strictReps = workoutData.exercise.cheatIssues
+    ? repHistory.filter((rep) => rep.counted && !rep.cheated).length
+    : null;
+  const valgusReps = repHistory.filter((rep) =>
+    rep.formIssues.includes('knee-valgus'),
+  ).length;
+  const averageQuality =
+    repHistory.length > 0
+      ? Math.round(
+          repHistory.reduce((sum, rep) => sum + rep.quality, 0) /
+            repHistory.length,
+        )
+      : null;
+
+  const repLeans = repHistory.flatMap((rep) =>
+    rep.maxTorsoLean != null
+      ? [
+          {
+            repNumber: rep.repNumber,
+            maxTorsoLean: rep.maxTorsoLean,
+            leanedForward: rep.formIssues.includes('forward-lean'),
+          },
+        ]
+      : [],
+  );
+
+  const symmetry = calculateSymmetrySummary(repHistory, romSettings);
+  // Bars are scaled to the side that moved further
+  const largerSideRange = symmetry
+    ? Math.max(
+        symmetry.left.averageRange,
+        symmetry.right.averageRange,
+      )
+    : 0;
+
+  const isHoldExercise = workoutData.holdSeconds !== undefined;
+  const performance = isHoldExercise
+    ? getHoldPerformanceMessage(workoutData.holdSeconds ?? 0)
+    : getPerformanceMessage(workoutData.reps);
 
   return (
     <div className="min-h-screen bg-gray-50">
@@ -162,11 +265,44 @@ export default function Summary() {
                 </svg>
               </div>
               <h3 className="text-lg font-semibold text-gray-900 mb-2">
-                Total Reps
+                {isHoldExercise ? 'Valid Hold Time' : 'Valid Reps'}
               </h3>
               <p className="text-3xl font-bold text-green-600">
-                {workoutData.reps}
+                {isHoldExercise
+                  ? formatDuration(workoutData.holdSeconds ?? 0)
+                  : workoutData.reps}
               </p>
+              {!isHoldExercise && (
+                <p className="text-sm text-gray-500 mt-1">
+                  of {attemptedReps} attempted
+                  {averageQuality !== null &&
+                    ` · ${averageQuality}% avg quality`}
+                </p>
+              )}
+              {strictReps !== null && (
+                <p className="text-sm text-gray-500 mt-1">
+                  {strictReps} strict reps ·{' '}
+                  {workoutData.reps - strictReps} with momentum
+                </p>
+              )}
+              {valgusReps > 0 && (
+                <p className="text-sm text-red-600 mt-1">
+                  Knees caved in on {valgusReps} of {attemptedReps}{' '}
+                  reps
+                </p>
+              )}
+              {workoutData.averageRepsPerMinute !== undefined && (
+                <p className="text-sm text-gray-500 mt-1">
+                  {workoutData.averageRepsPerMinute} reps / min
+                  average
+                </p>
+              )}
+              {workoutData.sideReps && (
+                <p className="text-sm text-gray-500 mt-1">
+                  Left {workoutData.sideReps.left} · Right{' '}
+                  {workoutData.sideReps.right}
+                </p>
+              )}
             </div>
           </div>
 
@@ -198,6 +334,231 @@ export default function Summary() {
           </div>
         </div>
 
+        {/* Freestyle Sets */}
+        {workoutData.sets && workoutData.sets.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h3 className="text-xl font-semibold text-gray-900 mb-4">
+              Sets
+            </h3>
+            <ul className="divide-y divide-gray-200">
+              {workoutData.sets.map((set, index) => {
+                const setHistory = set.repHistory ?? [];
+                const setAttempts =
+                  set.reps +
+                  setHistory.filter((rep) => !rep.counted).length;
+                const setQuality =
+                  setHistory.length > 0
+                    ? Math.round(
+                        setHistory.reduce(
+                          (sum, rep) => sum + rep.quality,
+                          0,
+                        ) / setHistory.length,
+                      )
+                    : null;
+                return (
+                  <li
+                    key={index}
+                    className="flex items-center justify-between py-3"
+                  >
+                    <div>
+                      <p className="font-semibold text-gray-900">
+                        {index + 1}. {set.exercise.name}
+                      </p>
+                      <p className="text-sm text-gray-500">
+                        of {setAttempts} attempted
+                        {setQuality !== null &&
+                          ` · ${setQuality}% avg quality`}
+                        {set.sideReps &&
+                          ` · Left ${set.sideReps.left} · Right ${set.sideReps.right}`}
+                      </p>
+                    </div>
+                    <p className="text-2xl font-bold text-green-600">
+                      {set.reps}
+                    </p>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
+        {/* Tempo */}
+        {averageTempo && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h3 className="text-xl font-semibold text-gray-900 mb-4">
+              Average Tempo
+            </h3>
+            <p className="text-3xl font-bold text-blue-600 mb-4">
+              {formatTempo(averageTempo)}
+              <span className="text-base font-normal text-gray-500">
+                {' '}
+                seconds
+              </span>
+            </p>
+            <div className="grid grid-cols-3 gap-4 text-center">
+              <div>
+                <p className="text-lg font-semibold text-gray-900">
+                  {(averageTempo.eccentricMs / 1000).toFixed(1)}s
+                </p>
+                <p className="text-sm text-gray-500">Lowering</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold text-gray-900">
+                  {(averageTempo.pauseMs / 1000).toFixed(1)}s
+                </p>
+                <p className="text-sm text-gray-500">Pause</p>
+              </div>
+              <div>
+                <p className="text-lg font-semibold text-gray-900">
+                  {(averageTempo.concentricMs / 1000).toFixed(1)}s
+                </p>
+                <p className="text-sm text-gray-500">Lifting</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Range of Motion */}
+        {repRanges.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h3 className="text-xl font-semibold text-gray-900 mb-4">
+              Range of Motion per Rep
+            </h3>
+            <ul className="space-y-2">
+              {repRanges.map((rep) => (
+                <li
+                  key={rep.repNumber}
+                  className="flex items-center gap-4"
+                >
+                  <span className="w-14 text-sm text-gray-500">
+                    Rep {rep.repNumber}
+                  </span>
+                  <div className="flex-1 h-3 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${
+                        rep.percent >= 90
+                          ? 'bg-green-500'
+                          : rep.percent >= 60
+                            ? 'bg-yellow-500'
+                            : 'bg-red-500'
+                      }`}
+                      style={{
+                        width: `${Math.min(rep.percent, 100)}%`,
+                      }}
+                    />
+                  </div>
+                  <span className="w-12 text-right text-sm font-semibold text-gray-900">
+                    {rep.percent}%
+                  </span>
+                  {romSettings?.unit === 'degrees' && (
+                    <span className="w-24 text-right text-sm text-gray-500">
+                      {Math.round(rep.rangeOfMotion.min)}°–
+                      {Math.round(rep.rangeOfMotion.max)}°
+                    </span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Torso Lean */}
+        {repLeans.length > 0 && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h3 className="text-xl font-semibold text-gray-900 mb-4">
+              Max Torso Lean per Rep
+            </h3>
+            <ul className="space-y-2">
+              {repLeans.map((rep) => (
+                <li
+                  key={rep.repNumber}
+                  className="flex items-center gap-4"
+                >
+                  <span className="w-14 text-sm text-gray-500">
+                    Rep {rep.repNumber}
+                  </span>
+                  <div className="flex-1 h-3 bg-gray-200 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${
+                        rep.leanedForward
+                          ? 'bg-red-500'
+                          : 'bg-green-500'
+                      }`}
+                      style={{
+                        width: `${Math.min((rep.maxTorsoLean / 90) * 100, 100)}%`,
+                      }}
+                    />
+                  </div>
+                  <span className="w-12 text-right text-sm font-semibold text-gray-900">
+                    {rep.maxTorsoLean}°
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {/* Left / Right Comparison */}
+        {symmetry && (
+          <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+            <h3 className="text-xl font-semibold text-gray-900 mb-4">
+              Left / Right Comparison
+            </h3>
+            <p className="text-3xl font-bold text-blue-600 mb-1">
+              {symmetry.asymmetryPercent}%
+              <span className="text-base font-normal text-gray-500">
+                {' '}
+                average asymmetry
+              </span>
+            </p>
+            <p className="text-sm text-gray-500 mb-4">
+              {symmetry.laggingSide
+                ? `Your ${symmetry.laggingSide} side lagged on most reps`
+                : 'Both sides kept pace'}
+              {symmetry.averageTurnaroundOffsetMs !== null &&
+                ` · sides turned around ${Math.abs(
+                  symmetry.averageTurnaroundOffsetMs,
+                )}ms apart on average`}
+            </p>
+            <ul className="space-y-2">
+              {(['left', 'right'] as const).map((side) => {
+                const sideSummary = symmetry[side];
+                const width =
+                  largerSideRange > 0
+                    ? (sideSummary.averageRange / largerSideRange) *
+                      100
+                    : 0;
+                return (
+                  <li key={side} className="flex items-center gap-4">
+                    <span className="w-14 text-sm text-gray-500 capitalize">
+                      {side}
+                    </span>
+                    <div className="flex-1 h-3 bg-gray-200 rounded-full overflow-hidden">
+                      <div
+                        className={`h-full rounded-full ${
+                          symmetry.laggingSide === side
+                            ? 'bg-orange-500'
+                            : 'bg-blue-500'
+                        }`}
+                        style={{ width: `${width}%` }}
+                      />
+                    </div>
+                    {sideSummary.averageDepth !== null && (
+                      <span className="w-20 text-right text-sm font-semibold text-gray-900">
+                        {sideSummary.averageDepth}% depth
+                      </span>
+                    )}
+                    <span className="w-24 text-right text-sm text-gray-500">
+                      lagged {sideSummary.laggingReps} of{' '}
+                      {symmetry.measuredReps}
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+
         {/* Exercise Details */}
         <div className="bg-white rounded-lg shadow-md p-6 mb-8">
           <h3 className="text-xl font-semibold text-gray-900 mb-4">
@@ -0,0 +1,149 @@
+import type { Route } from './+types/versus-summary';
+import { useLocation, useNavigate } from 'react-router';
+import { useEffect, useState } from 'react';
+import { Button } from '~/components/Button';
+import type { VersusSession } from '~/types/exercise';
+import { PLAYER_LANES, PLAYER_NAMES } from '~/utils/versus';
+
+export function meta({}: Route.MetaArgs) {
+  return [
+    { title: 'VisionFlex - Match Result' },
+    {
+      name: 'description',
+      content: 'Your head-to-head match result',
+    },
+  ];
+}
+
+export default function VersusSummary() {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const [versusData, setVersusData] = useState<VersusSession | null>(
+    null,
+  );
+
+  useEffect(() => {
+    const data = location.state?.versusData as VersusSession;
+    if (!data) {
+      navigate('/');
+      return;
+    }
+    setVersusData(data);
+  }, [location.state, navigate]);
+
+  if (!versusData) {
+    return null; // Will redirect in useEffect
+  }
+
+  const formatDuration = (seconds: number): string => {
+    const minutes = Math.floor(seconds / 60);
+    const remainingSeconds = seconds % 60;
+    return `${minutes}m ${remainingSeconds}s`;
+  };
+
+  const { settings, winner } = versusData;
+  const matchDescription =
+    settings.mode === 'race'
+      ? `Race to ${settings.targetReps} reps`
+      : `Most reps in ${formatDuration(settings.durationSeconds)}`;
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <div className="bg-gradient-to-r from-yellow-500 to-red-600 text-white">
+        <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+          <div className="text-center">
+            <div className="bg-white/20 rounded-full w-20 h-20 flex items-center justify-center mx-auto mb-6 text-4xl">
+              {winner ? '🏆' : '🤝'}
+            </div>
+            <h1 className="text-4xl font-bold mb-4">
+              {winner
+                ? `${PLAYER_NAMES[winner]} Wins!`
+                : "It's a Tie!"}
+            </h1>
+            <p className="text-xl text-yellow-100">
+              {versusData.exercise.name} · {matchDescription}
+            </p>
+          </div>
+        </div>
+      </div>
+
+      <div className="max-w-4xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+        {/* Player Cards */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-12">
+          {PLAYER_LANES.map((lane) => {
+            const player = versusData.players[lane];
+            const repHistory = player.repHistory ?? [];
+            const rejectedReps = repHistory.filter(
+              (rep) => !rep.counted,
+            ).length;
+            const averageQuality =
+              repHistory.length > 0
+                ? Math.round(
+                    repHistory.reduce(
+                      (sum, rep) => sum + rep.quality,
+                      0,
+                    ) / repHistory.length,
+                  )
+                : null;
+
+            return (
+              <div
+                key={lane}
+                className={`bg-white rounded-lg shadow-md p-6 text-center ${
+                  winner === lane ? 'ring-4 ring-yellow-400' : ''
+                }`}
+              >
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">
+                  {PLAYER_NAMES[lane]}
+                  {winner === lane && ' 🏆'}
+                </h3>
+                <p className="text-5xl font-bold text-green-600">
+                  {player.reps}
+                </p>
+                <p className="text-sm text-gray-500 mt-1">
+                  valid reps of {player.reps + rejectedReps} attempted
+                </p>
+                {averageQuality !== null && (
+                  <p className="text-sm text-gray-500 mt-1">
+                    {averageQuality}% avg quality
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6 mb-8 text-center">
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">
+            Duration
+          </h3>
+          <p className="text-3xl font-bold text-purple-600">
+            {formatDuration(versusData.duration)}
+          </p>
+        </div>
+
+        {/* Action Buttons */}
+        <div className="flex flex-col sm:flex-row gap-4 justify-center">
+          <Button
+            onClick={() =>
+              navigate(`/versus/${versusData.exercise.id}`)
+            }
+            size="lg"
+            className="px-8"
+          >
+            Rematch
+          </Button>
+          <Button
+            onClick={() => navigate('/')}
+            variant="secondary"
+            size="lg"
+            className="px-8"
+          >
+            Choose Different Exercise
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,316 @@
+import type { Route } from './+types/versus';
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router';
+import { Button } from '~/components/Button';
+import { useWebcam } from '~/hooks/useWebcam';
+import { usePoseDetection } from '~/hooks/usePoseDetection';
+import { usePoseFilter } from '~/hooks/usePoseFilter';
+import { usePlayerTargets } from '~/hooks/usePlayerTargets';
+import { useRepCounting } from '~/hooks/useRepCounting';
+import { useRepStrictness } from '~/hooks/useRepStrictness';
+import { useAnimationLoop } from '~/hooks/useAnimationLoop';
+import { useTimer } from '~/hooks/useTimer';
+import { useWorkoutState } from '~/hooks/useWorkoutState';
+import { useWorkoutCanvas } from '~/hooks/useWorkoutCanvas';
+import { getExerciseById } from '~/constants/exercises';
+import type {
+  PlayerLane,
+  VersusSession,
+  VersusSettings,
+} from '~/types/exercise';
+import { WorkoutVideo } from '~/components/WorkoutVideo';
+import { VersusControlPanel } from '~/components/VersusControlPanel';
+import { drawLaneDivider, drawPose } from '~/utils/canvasUtils';
+import {
+  DEFAULT_VERSUS_SETTINGS,
+  PLAYER_LANES,
+  PLAYER_NAMES,
+  getVersusWinner,
+  isVersusAvailable,
+  isVersusOver,
+} from '~/utils/versus';
+
+// Other people in view are drawn faintly behind the players
+const BYSTANDER_OPACITY = 0.3;
+
+export function meta({ params }: Route.MetaArgs) {
+  const exercise = getExerciseById(params.exercise);
+  return [
+    {
+      title: `VisionFlex - ${exercise?.name || 'Workout'} Head-to-Head`,
+    },
+    {
+      name: 'description',
+      content: `Two-player ${exercise?.name || 'workout'} challenge`,
+    },
+  ];
+}
+
+export default function Versus({ params }: Route.ComponentProps) {
+  const navigate = useNavigate();
+  const exercise = getExerciseById(params.exercise);
+  const [settings, setSettings] = useState<VersusSettings>(
+    DEFAULT_VERSUS_SETTINGS,
+  );
+
+  // Core hooks
+  const webcam = useWebcam();
+  const poseDetection = usePoseDetection();
+  const poseFilter = usePoseFilter(exercise?.poseFilter);
+  const playerTargets = usePlayerTargets();
+  const timer = useTimer();
+  const animation = useAnimationLoop();
+  const workoutState = useWorkoutState();
+  const canvas = useWorkoutCanvas(
+    webcam.hasPermission,
+    webcam.stream,
+  );
+
+  // Each player is counted and coached on their own
+  const repStrictness = useRepStrictness(exercise!);
+  const leftCounting = useRepCounting(
+    exercise!,
+    repStrictness.strictness,
+  );
+  const rightCounting = useRepCounting(
+    exercise!,
+    repStrictness.strictness,
+  );
+  const counting = { left: leftCounting, right: rightCounting };
+  const reps: Record<PlayerLane, number> = {
+    left: leftCounting.repState.repCount,
+    right: rightCounting.repState.repCount,
+  };
+
+  // Pose processing function
+  const processPoseData = async () => {
+    if (!webcam.videoRef.current || !canvas.canvasRef.current) return;
+
+    try {
+      if (!webcam.videoRef.current.srcObject && webcam.stream) {
+        webcam.videoRef.current.srcObject = webcam.stream;
+      }
+
+      const { players, bystanders } = playerTargets.processFrame(
+        poseFilter.filterPoses(
+          await poseDetection.detectPose(webcam.videoRef.current),
+        ),
+      );
+      const ctx = canvas.canvasRef.current.getContext('2d');
+
+      if (!ctx) return;
+
+      PLAYER_LANES.forEach((lane) => {
+        const pose = players[lane];
+        counting[lane].processFrame(pose ? [pose] : []);
+      });
+
+      const { width, height } = canvas.canvasRef.current;
+      ctx.clearRect(0, 0, width, height);
+      drawLaneDivider(ctx, width, height);
+      bystanders.forEach((pose) =>
+        drawPose(ctx, pose, width, height, BYSTANDER_OPACITY),
+      );
+      PLAYER_LANES.forEach((lane) => {
+        const pose = players[lane];
+        if (pose) {
+          drawPose(ctx, pose, width, height);
+        }
+      });
+    } catch (error) {
+      console.error('Error processing pose:', error);
+      workoutState.setMessage('AI processing error - keep going');
+    }
+  };
+
+  const startMatch = async () => {
+    if (!webcam.hasPermission) {
+      const streamRestored = await webcam.ensureStream();
+      if (!streamRestored) {
+        workoutState.setMessage(
+          'Camera permission required to start the match',
+        );
+        return;
+      }
+    }
+
+    await poseDetection.loadModel();
+    if (poseDetection.modelError) {
+      workoutState.setMessage(
+        `Failed to load AI model: ${poseDetection.modelError}. Please try again.`,
+      );
+      return;
+    }
+
+    leftCounting.resetCounter();
+    rightCounting.resetCounter();
+    poseFilter.resetFilter();
+    playerTargets.resetTargets();
+    animation.startLoop(processPoseData);
+    workoutState.startWorkout();
+    workoutState.setMessage('Go!');
+    timer.start();
+  };
+
+  const { stopLoop } = animation;
+  const { stopStream } = webcam;
+  const { reset, seconds } = timer;
+  const leftHistory = leftCounting.repState.repHistory;
+  const rightHistory = rightCounting.repState.repHistory;
+  const endMatch = useCallback(() => {
+    if (!exercise) return;
+
+    const endTime = new Date();
+    stopLoop();
+    stopStream();
+    reset();
+
+    const versusData: VersusSession = {
+      exercise,
+      settings,
+      players: {
+        left: { reps: reps.left, repHistory: leftHistory },
+        right: { reps: reps.right, repHistory: rightHistory },
+      },
+      winner: getVersusWinner(reps),
+      duration: seconds,
+      startTime: new Date(Date.now() - seconds * 1000),
+      endTime,
+    };
+
+    navigate('/versus-summary', { state: { versusData } });
+  }, [
+    exercise,
+    settings,
+    reps.left,
+    reps.right,
+    leftHistory,
+    rightHistory,
+    seconds,
+    stopLoop,
+    stopStream,
+    reset,
+    navigate,
+  ]);
+
+  // The match ends itself once the target or the time limit is reached
+  const { isWorkoutActive: isMatchActive } = workoutState;
+  const isOver = isVersusOver(settings, reps, seconds);
+  useEffect(() => {
+    if (isMatchActive && isOver) {
+      endMatch();
+    }
+  }, [isMatchActive, isOver, endMatch]);
+
+  // Cleanup effect
+  useEffect(() => {
+    if (!exercise || !isVersusAvailable(exercise)) {
+      navigate('/');
+      return;
+    }
+
+    return () => {
+      stopStream();
+    };
+  }, [exercise, navigate, stopStream]);
+
+  if (!exercise) return null;
+
+  if (webcam.error) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center">
+        <div className="text-center max-w-md">
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">
+            Camera Access Required
+          </h2>
+          <p className="text-gray-600 mb-4">{webcam.error}</p>
+          <Button onClick={() => navigate('/')}>Back to Home</Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-900">
+      {/* Header */}
+      <div className="bg-gray-800 text-white p-4">
+        <div className="max-w-7xl mx-auto flex justify-between items-center">
+          <div>
+            <h1 className="text-2xl font-bold">
+              {exercise.name} · Head-to-Head
+            </h1>
+            <p className="text-gray-300">Two players, one camera</p>
+          </div>
+          <Button
+            variant="secondary"
+            onClick={() => navigate('/')}
+            className="text-gray-900"
+          >
+            Exit Match
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-col lg:flex-row h-[calc(100vh-80px)]">
+        <WorkoutVideo
+          videoRef={webcam.videoRef}
+          canvasRef={canvas.canvasRef}
+          stream={webcam.stream}
+          isLoading={webcam.isLoading}
+          isAILoading={workoutState.isAILoading}
+          isPoseModelLoading={poseDetection.isModelLoading}
+          isWorkoutActive={isMatchActive}
+          repCount={Math.max(reps.left, reps.right)}
+          requestPermission={webcam.requestPermission}
+        >
+          {/* Player lanes */}
+          <div className="absolute inset-0 flex pointer-events-none">
+            {PLAYER_LANES.map((lane) => {
+              const formFeedback =
+                counting[lane].repState.formFeedback;
+              return (
+                <div key={lane} className="flex-1 relative">
+                  <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-black bg-opacity-50 text-white px-4 py-2 rounded-lg text-center">
+                    <div className="text-sm text-gray-300">
+                      {PLAYER_NAMES[lane]}
+                    </div>
+                    <div className="text-3xl font-bold text-blue-400">
+                      {reps[lane]}
+                      {settings.mode === 'race' && (
+                        <span className="text-lg text-gray-300">
+                          {' '}
+                          / {settings.targetReps}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                  {isMatchActive && formFeedback && (
+                    <div className="absolute bottom-6 left-4 right-4 bg-black bg-opacity-60 text-yellow-300 text-sm px-3 py-2 rounded-lg text-center">
+                      {formFeedback}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </WorkoutVideo>
+
+        <VersusControlPanel
+          settings={settings}
+          setSettings={setSettings}
+          currentMessage={workoutState.currentMessage}
+          isMatchActive={isMatchActive}
+          isPoseModelLoading={poseDetection.isModelLoading}
+          isLoading={webcam.isLoading}
+          hasPermission={webcam.hasPermission}
+          modelError={poseDetection.modelError}
+          reps={reps}
+          seconds={seconds}
+          formatTime={timer.formatTime}
+          onStart={startMatch}
+          onEnd={endMatch}
+        />
+      </div>
+    </div>
+  );
+}
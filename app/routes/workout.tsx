@@ -1,24 +1,77 @@
 import type { Route } from './+types/workout';
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router';
 import { Button } from '~/components/Button';
 import { useWebcam } from '~/hooks/useWebcam';
 import { usePoseDetection } from '~/hooks/usePoseDetection';
+import { usePoseFilter } from '~/hooks/usePoseFilter';
 import { useRepCounting } from '~/hooks/useRepCounting';
+import { useExerciseRecognition } from '~/hooks/useExerciseRecognition';
+import { useGestureControls } from '~/hooks/useGestureControls';
+import { usePoseTarget } from '~/hooks/usePoseTarget';
+import type { GestureActions } from '~/hooks/useGestureControls';
+import { useVoiceCommands } from '~/hooks/useVoiceCommands';
+import type { VoiceCommandActions } from '~/hooks/useVoiceCommands';
+import { useRepStrictness } from '~/hooks/useRepStrictness';
+import { useCalibration } from '~/hooks/useCalibration';
 import { useAnimationLoop } from '~/hooks/useAnimationLoop';
 import { useTextToSpeech } from '~/hooks/useTextToSpeech';
 import { useTimer } from '~/hooks/useTimer';
-import { getExerciseById } from '~/constants/exercises';
+import {
+  FREESTYLE_EXERCISE,
+  getExerciseById,
+} from '~/constants/exercises';
+import type {
+  Exercise,
+  RepCounterState,
+  WorkoutSet,
+} from '~/types/exercise';
 import { useWorkoutState } from '~/hooks/useWorkoutState';
 import { useWorkoutCanvas } from '~/hooks/useWorkoutCanvas';
 import { useSpeechQueue } from '~/hooks/useSpeechQueue';
+import { useFeedbackScheduler } from '~/hooks/useFeedbackScheduler';
 import { useWorkoutActions } from '~/hooks/useWorkoutActions';
 import { WorkoutVideo } from '~/components/WorkoutVideo';
 import { WorkoutControlPanel } from '~/components/WorkoutControlPanel';
-import { drawPose } from '~/utils/canvasUtils';
+import { drawGestureProgress, drawPose } from '~/utils/canvasUtils';
+import { isCalibrationAvailable } from '~/utils/calibration';
+import { FEEDBACK_SETTINGS } from '~/utils/feedbackScheduler';
+import { calculateRepsPerMinute } from '~/utils/poseAnalysis/cadence';
+import { calculateRangeOfMotionProgress } from '~/utils/poseAnalysis/rangeOfMotion';
+import { calculateSymmetrySummary } from '~/utils/poseAnalysis/symmetry';
+import {
+  FATIGUE_LEVELS,
+  estimateFatigue,
+  getFatigueCue,
+} from '~/utils/poseAnalysis/fatigue';
+import type { FatigueLevel } from '~/utils/poseAnalysis/fatigue';
+
+// Other people in view are drawn faintly behind the tracked user
+const BYSTANDER_OPACITY = 0.3;
+
+/**
+ * Reps done so far as a set of the given exercise, null before the first rep
+ */
+function createWorkoutSet(
+  exercise: Exercise,
+  repState: RepCounterState,
+): WorkoutSet | null {
+  if (repState.repCount === 0 && !repState.repHistory?.length) {
+    return null;
+  }
+  return {
+    exercise,
+    reps: repState.repCount,
+    sideReps: repState.sideRepCounts,
+    repHistory: repState.repHistory,
+  };
+}
 
 export function meta({ params }: Route.MetaArgs) {
-  const exercise = getExerciseById(params.exercise);
+  const exercise =
+    params.exercise === FREESTYLE_EXERCISE.id
+      ? FREESTYLE_EXERCISE
+      : getExerciseById(params.exercise);
   return [
     { title: `VisionFlex - ${exercise?.name || 'Workout'}` },
     {
@@ -31,33 +84,82 @@ export function meta({ params }: Route.MetaArgs) {
 export default function Workout({ params }: Route.ComponentProps) {
   const navigate = useNavigate();
   const { exercise: exerciseId } = params;
-  const exercise = getExerciseById(exerciseId);
+
+  // Freestyle follows whichever exercise is recognised from the movement
+  const isFreestyle = exerciseId === FREESTYLE_EXERCISE.id;
+  const recognition = useExerciseRecognition();
+  const exercise = isFreestyle
+    ? (recognition.exercise ?? FREESTYLE_EXERCISE)
+    : getExerciseById(exerciseId);
+  const [completedSets, setCompletedSets] = useState<WorkoutSet[]>(
+    [],
+  );
 
   const [isAudioEnabled, setIsAudioEnabled] = useState(true);
+  const [isFatigueCueEnabled, setIsFatigueCueEnabled] =
+    useState(true);
+  const [isGestureControlEnabled, setIsGestureControlEnabled] =
+    useState(false);
+  const [isVoiceControlEnabled, setIsVoiceControlEnabled] =
+    useState(false);
 
   // Core hooks
   const webcam = useWebcam();
   const poseDetection = usePoseDetection();
+  const poseFilter = usePoseFilter(exercise?.poseFilter);
   const speech = useTextToSpeech();
   const timer = useTimer();
   const animation = useAnimationLoop();
+  const poseTarget = usePoseTarget();
 
   // Workout state management
   const workoutState = useWorkoutState();
+  // The loop keeps running while paused when gestures are on, but only
+  // an active workout counts reps
+  const isWorkoutActiveRef = useRef(false);
+  isWorkoutActiveRef.current = workoutState.isWorkoutActive;
 
   // Exercise specific hooks
-  const repCounting = useRepCounting(exercise!);
+  const repStrictness = useRepStrictness(exercise!);
+  const calibration = useCalibration(exercise!);
+  const repCounting = useRepCounting(
+    exercise!,
+    repStrictness.strictness,
+    calibration.baseline,
+  );
+  const holdSeconds =
+    repCounting.repState.holdTime !== undefined
+      ? Math.floor(repCounting.repState.holdTime / 1000)
+      : undefined;
+  const repsPerMinute = repCounting.repState.repTimestamps
+    ? calculateRepsPerMinute(repCounting.repState.repTimestamps)
+    : undefined;
+  const romProgress =
+    exercise?.rangeOfMotion &&
+    repCounting.repState.trackedMeasure !== undefined
+      ? calculateRangeOfMotionProgress(
+          repCounting.repState.trackedMeasure,
+          exercise.rangeOfMotion,
+        )
+      : undefined;
+  const symmetry = calculateSymmetrySummary(
+    repCounting.repState.repHistory ?? [],
+    exercise?.rangeOfMotion,
+  );
+  const fatigue = estimateFatigue(
+    repCounting.repState.repHistory ?? [],
+  );
   const canvas = useWorkoutCanvas(
     webcam.hasPermission,
     webcam.stream,
   );
+  const feedbackScheduler = useFeedbackScheduler();
   const speechQueue = useSpeechQueue(
     isAudioEnabled,
     workoutState.isWorkoutActive,
     speech.speak,
     speech.isSpeaking,
-    repCounting.repState.repCount,
-    repCounting.getFormFeedback,
+    feedbackScheduler.subscribe,
   );
 
   // Pose processing function
@@ -69,9 +171,13 @@ export default function Workout({ params }: Route.ComponentProps) {
         webcam.videoRef.current.srcObject = webcam.stream;
       }
 
-      const poses = await poseDetection.detectPose(
-        webcam.videoRef.current,
+      const { target, bystanders } = poseTarget.processFrame(
+        poseFilter.filterPoses(
+          await poseDetection.detectPose(webcam.videoRef.current),
+        ),
       );
+      // Everything downstream only ever sees the person being coached
+      const poses = target ? [target] : [];
       const ctx = canvas.canvasRef.current.getContext('2d');
 
       if (!ctx) return;
@@ -83,31 +189,38 @@ export default function Workout({ params }: Route.ComponentProps) {
         canvas.canvasRef.current.height,
       );
 
-      if (poses.length > 0) {
-        const pose = poses[0];
+      if (
+        !calibration.processFrame(poses) &&
+        isWorkoutActiveRef.current
+      ) {
+        if (isFreestyle) {
+          recognition.processFrame(poses);
+        }
         repCounting.processFrame(poses);
+      }
+      const gestureHold = gestureControls.processFrame(poses);
 
-        if (workoutState.isWorkoutActive) {
-          const feedback = repCounting.getFormFeedback();
-          workoutState.setMessage(
-            feedback ||
-              `Keep going! Reps: ${repCounting.repState.repCount}`,
-          );
+      if (
+        !canvas.canvasResizedRef.current &&
+        webcam.videoRef.current
+      ) {
+        const { width, height } = canvas.canvasRef.current;
+        bystanders.forEach((pose) =>
+          drawPose(ctx, pose, width, height, BYSTANDER_OPACITY),
+        );
+        if (target) {
+          drawPose(ctx, target, width, height);
         }
+      }
 
-        if (
-          !canvas.canvasResizedRef.current &&
-          webcam.videoRef.current
-        ) {
-          drawPose(
-            ctx,
-            pose,
-            canvas.canvasRef.current.width,
-            canvas.canvasRef.current.height,
-          );
-        }
-      } else if (workoutState.isWorkoutActive) {
-        workoutState.setMessage('Step into view of the camera');
+      if (gestureHold) {
+        drawGestureProgress(
+          ctx,
+          gestureHold.progress,
+          gestureHold.label,
+          canvas.canvasRef.current.width,
+          canvas.canvasRef.current.height,
+        );
       }
     } catch (error) {
       console.error('Error processing pose:', error);
@@ -119,15 +232,149 @@ export default function Workout({ params }: Route.ComponentProps) {
     }
   };
 
+  // Rep events become coaching messages, the scheduler decides which get through
+  const { subscribe: subscribeToRepEvents } = repCounting;
+  const { submit, subscribe: subscribeToFeedback } =
+    feedbackScheduler;
+  const { isWorkoutActive, setMessage } = workoutState;
+
+  // Whoever is coached when the workout starts stays the target
+  const { lockTarget } = poseTarget;
+  useEffect(() => {
+    if (isWorkoutActive) {
+      lockTarget();
+    }
+  }, [isWorkoutActive, lockTarget]);
+  useEffect(() => {
+    if (!isWorkoutActive) return;
+
+    return subscribeToRepEvents((event) => {
+      if (event.type === 'feedback-changed') {
+        submit({ text: event.message, type: event.feedbackType });
+      } else if (event.type === 'rep-completed') {
+        submit({
+          text: `Keep going! Reps: ${event.repCount}`,
+          spokenText: `${event.repCount}`,
+          type: 'rep',
+        });
+      } else if (event.type === 'body-lost') {
+        submit({
+          text: 'Step into view of the camera',
+          type: 'visibility',
+        });
+      }
+    });
+  }, [subscribeToRepEvents, submit, isWorkoutActive]);
+
+  useEffect(() => {
+    if (!isWorkoutActive || holdSeconds === undefined) return;
+    submit({
+      text: `Keep holding! Time: ${holdSeconds}s`,
+      type: 'status',
+    });
+  }, [holdSeconds, submit, isWorkoutActive]);
+
+  // Each rise in fatigue is announced once per set
+  const fatigueLevel = fatigue?.level ?? null;
+  const peakFatigueRef = useRef<FatigueLevel>('fresh');
+  useEffect(() => {
+    // A new set has no estimate yet, so the cues can fire again
+    if (fatigueLevel === null) {
+      peakFatigueRef.current = 'fresh';
+      return;
+    }
+    if (
+      FATIGUE_LEVELS.indexOf(fatigueLevel) <=
+      FATIGUE_LEVELS.indexOf(peakFatigueRef.current)
+    ) {
+      return;
+    }
+    peakFatigueRef.current = fatigueLevel;
+
+    const cue = getFatigueCue(fatigueLevel);
+    if (cue && isWorkoutActive && isFatigueCueEnabled) {
+      submit({ text: cue, type: 'fatigue' });
+    }
+  }, [fatigueLevel, isWorkoutActive, isFatigueCueEnabled, submit]);
+
+  useEffect(() => {
+    if (!isWorkoutActive) return;
+    return subscribeToFeedback((message) => setMessage(message.text));
+  }, [subscribeToFeedback, isWorkoutActive, setMessage]);
+
+  // A newly recognised exercise closes the set of the previous one.
+  // The counter still holds the previous exercise's reps at this point,
+  // the new set starts with the reps done while it was being recognised
+  const { repState, resetCounter } = repCounting;
+  const { recognisedReps } = recognition;
+  const setExerciseRef = useRef(exercise);
+  useEffect(() => {
+    const previousExercise = setExerciseRef.current;
+    setExerciseRef.current = exercise;
+    if (!isFreestyle || !exercise || previousExercise === exercise) {
+      return;
+    }
+
+    const finishedSet =
+      previousExercise &&
+      createWorkoutSet(previousExercise, repState);
+    if (finishedSet) {
+      setCompletedSets((sets) => [...sets, finishedSet]);
+    }
+    resetCounter(recognisedReps);
+
+    if (exercise !== FREESTYLE_EXERCISE) {
+      submit({
+        text: `${exercise.name} recognised - starting a new set`,
+        spokenText: exercise.name,
+        type: 'rep',
+      });
+    }
+  }, [
+    exercise,
+    isFreestyle,
+    repState,
+    recognisedReps,
+    resetCounter,
+    submit,
+  ]);
+
+  const currentSet =
+    isFreestyle && exercise && exercise !== FREESTYLE_EXERCISE
+      ? createWorkoutSet(exercise, repState)
+      : null;
+  const freestyleSets = isFreestyle
+    ? [...completedSets, ...(currentSet ? [currentSet] : [])]
+    : undefined;
+
+  // Walk the user through the calibration steps
+  useEffect(() => {
+    if (calibration.phase === 'neutral') {
+      setMessage('Calibration: hold your starting position still');
+    } else if (calibration.phase === 'reference-rep') {
+      setMessage('Calibration: now do one slow, full rep');
+    }
+  }, [calibration.phase, setMessage]);
+
   // Reset workout state helper
   const resetWorkoutState = () => {
     repCounting.resetCounter();
+    recognition.resetRecognition();
+    setCompletedSets([]);
+    poseFilter.resetFilter();
+    feedbackScheduler.resetScheduler();
     speechQueue.resetSpeechQueue();
   };
 
+  // The loop holds on to the callback it was started with, so read the
+  // latest render's frame processing, e.g. a newly recognised exercise
+  const processPoseDataRef = useRef(processPoseData);
+  processPoseDataRef.current = processPoseData;
+  const processLatestPoseData = () => processPoseDataRef.current();
+
   // Workout action handlers
   const workoutActions = useWorkoutActions({
-    exercise: exercise!,
+    exercise: isFreestyle ? FREESTYLE_EXERCISE : exercise!,
     stream: webcam.stream,
     hasPermission: webcam.hasPermission,
     ensureStream: webcam.ensureStream,
@@ -135,10 +382,15 @@ export default function Workout({ params }: Route.ComponentProps) {
     modelError: poseDetection.modelError,
     startLoop: animation.startLoop,
     stopLoop: animation.stopLoop,
-    processPoseData,
+    processPoseData: processLatestPoseData,
     resetWorkoutState,
+    isCalibrationRequested: calibration.isCalibrationRequested,
+    calibrate: calibration.calibrate,
+    cancelCalibration: calibration.cancelCalibration,
     setMessage: workoutState.setMessage,
     startWorkout: workoutState.startWorkout,
+    pauseWorkout: workoutState.pauseWorkout,
+    resumeWorkout: workoutState.resumeWorkout,
     finishLoading: workoutState.finishLoading,
     stopStream: webcam.stopStream,
     reset: timer.reset,
@@ -146,8 +398,111 @@ export default function Workout({ params }: Route.ComponentProps) {
     pause: timer.pause,
     seconds: timer.seconds,
     repCount: repCounting.repState.repCount,
+    sideRepCounts: repCounting.repState.sideRepCounts,
+    holdSeconds,
+    repTimestamps: repCounting.repState.repTimestamps,
+    repHistory: repCounting.repState.repHistory,
+    sets: freestyleSets,
+  });
+
+  // Hands up starts and resumes, a T-pose pauses and then ends
+  const gestureActions: GestureActions = {};
+  if (isGestureControlEnabled) {
+    if (isWorkoutActive) {
+      gestureActions['t-pose'] = {
+        label: 'Pause',
+        run: workoutActions.pauseWorkout,
+      };
+    } else if (timer.seconds > 0) {
+      gestureActions['hands-up'] = {
+        label: 'Resume',
+        run: workoutActions.resumeWorkout,
+      };
+      gestureActions['t-pose'] = {
+        label: 'End',
+        run: workoutActions.endWorkout,
+      };
+    } else if (
+      calibration.phase === null &&
+      !workoutState.isAILoading
+    ) {
+      gestureActions['hands-up'] = {
+        label: 'Start',
+        run: workoutActions.startWorkout,
+      };
+    }
+  }
+  const gestureControls = useGestureControls(gestureActions);
+
+  // Spoken commands drive the same actions as the buttons
+  const announceProgress = () => {
+    const text =
+      holdSeconds !== undefined
+        ? `You've held for ${holdSeconds} seconds`
+        : `You've done ${repCounting.repState.repCount} reps`;
+    setMessage(text);
+    if (isAudioEnabled) {
+      speechQueue.queueSpeech(text, FEEDBACK_SETTINGS.rep.priority);
+    }
+  };
+  const voiceCommandActions: VoiceCommandActions = {
+    'rep-count': announceProgress,
+    mute: () => setIsAudioEnabled(false),
+    unmute: () => setIsAudioEnabled(true),
+  };
+  if (isWorkoutActive) {
+    voiceCommandActions.pause = workoutActions.pauseWorkout;
+    voiceCommandActions.finish = workoutActions.endWorkout;
+  } else if (timer.seconds > 0) {
+    voiceCommandActions.start = workoutActions.resumeWorkout;
+    voiceCommandActions.resume = workoutActions.resumeWorkout;
+    voiceCommandActions.finish = workoutActions.endWorkout;
+  } else if (
+    calibration.phase === null &&
+    !workoutState.isAILoading
+  ) {
+    voiceCommandActions.start = workoutActions.startWorkout;
+  }
+  const voiceCommands = useVoiceCommands({
+    isEnabled: isVoiceControlEnabled,
+    isSpeaking: speech.isSpeaking,
+    commands: voiceCommandActions,
   });
 
+  // Gestures need frames before the workout starts and while it is
+  // paused, so the loop runs on standby until the workout takes it over
+  const isGestureStandby =
+    isGestureControlEnabled &&
+    webcam.hasPermission &&
+    !isWorkoutActive;
+  const { loadModel } = poseDetection;
+  const { startLoop, stopLoop } = animation;
+  useEffect(() => {
+    if (!isGestureStandby) return;
+
+    let isCancelled = false;
+    loadModel().then(() => {
+      if (!isCancelled) {
+        startLoop(() => processPoseDataRef.current());
+      }
+    });
+
+    return () => {
+      isCancelled = true;
+      if (!isWorkoutActiveRef.current) {
+        stopLoop();
+      }
+    };
+  }, [isGestureStandby, loadModel, startLoop, stopLoop]);
+
+  // Without gestures nothing else needs the frames once calibration stops
+  const cancelCalibration = () => {
+    calibration.cancelCalibration();
+    if (!isGestureStandby) {
+      stopLoop();
+    }
+  };
+
   // Cleanup effect
   useEffect(() => {
     if (!exercise) {
@@ -204,8 +559,16 @@ export default function Workout({ params }: Route.ComponentProps) {
       <div className="bg-gray-800 text-white p-4">
         <div className="max-w-7xl mx-auto flex justify-between items-center">
           <div>
-            <h1 className="text-2xl font-bold">{exercise.name}</h1>
-            <p className="text-gray-300">AI-Guided Workout</p>
+            <h1 className="text-2xl font-bold">
+              {isFreestyle && exercise !== FREESTYLE_EXERCISE
+                ? `${FREESTYLE_EXERCISE.name} · ${exercise.name}`
+                : exercise.name}
+            </h1>
+            <p className="text-gray-300">
+              {isFreestyle
+                ? `Set ${completedSets.length + 1} · exercises are recognised automatically`
+                : 'AI-Guided Workout'}
+            </p>
           </div>
           <Button
             variant="secondary"
@@ -227,6 +590,9 @@ export default function Workout({ params }: Route.ComponentProps) {
           isPoseModelLoading={poseDetection.isModelLoading}
           isWorkoutActive={workoutState.isWorkoutActive}
           repCount={repCounting.repState.repCount}
+          sideRepCounts={repCounting.repState.sideRepCounts}
+          holdSeconds={holdSeconds}
+          romProgress={romProgress}
           requestPermission={webcam.requestPermission}
         />
 
@@ -236,16 +602,43 @@ export default function Workout({ params }: Route.ComponentProps) {
           isWorkoutActive={workoutState.isWorkoutActive}
           isAudioEnabled={isAudioEnabled}
           setIsAudioEnabled={setIsAudioEnabled}
+          isFatigueCueEnabled={isFatigueCueEnabled}
+          setIsFatigueCueEnabled={setIsFatigueCueEnabled}
+          isGestureControlEnabled={isGestureControlEnabled}
+          setIsGestureControlEnabled={setIsGestureControlEnabled}
+          isVoiceControlSupported={voiceCommands.isSupported}
+          isVoiceControlEnabled={isVoiceControlEnabled}
+          setIsVoiceControlEnabled={setIsVoiceControlEnabled}
+          isVoiceListening={voiceCommands.isListening}
+          voiceControlError={voiceCommands.error}
+          strictness={repStrictness.strictness}
+          setStrictness={repStrictness.setStrictness}
+          isCalibrationAvailable={
+            !isFreestyle && isCalibrationAvailable(exercise)
+          }
+          isCalibrating={calibration.phase !== null}
+          isCalibrated={calibration.baseline !== null}
+          isCalibrationRequested={calibration.isCalibrationRequested}
+          setCalibrationRequested={
+            calibration.setCalibrationRequested
+          }
+          onClearCalibration={calibration.clearCalibration}
           isPoseModelLoading={poseDetection.isModelLoading}
           isAILoading={workoutState.isAILoading}
           isLoading={webcam.isLoading}
           hasPermission={webcam.hasPermission}
           modelError={poseDetection.modelError}
           repCount={repCounting.repState.repCount}
+          sideRepCounts={repCounting.repState.sideRepCounts}
+          holdSeconds={holdSeconds}
+          repsPerMinute={repsPerMinute}
+          symmetry={symmetry}
+          fatigue={fatigue}
           seconds={timer.seconds}
           formatTime={timer.formatTime}
           onStart={workoutActions.startWorkout}
           onPause={workoutActions.pauseWorkout}
+          onCancelCalibration={cancelCalibration}
           onResume={workoutActions.resumeWorkout}
           onEnd={workoutActions.endWorkout}
         />
@@ -1,3 +1,6 @@
+import type { FeedbackType } from './feedback';
+import type { PoseFilterSettings } from './poseFilter';
+
 export interface Exercise {
   id: string;
   name: string;
@@ -6,16 +9,74 @@ export interface Exercise {
   difficulty: 'beginner' | 'intermediate' | 'advanced';
   instructions: string[];
   initialState: ExerciseState;
+  // Rep-based up/down cycle by default, 'hold' tracks time in position instead
+  // and 'cadence' counts fast reps and reports reps per minute
+  trackingMode?: TrackingMode;
+  // Count left and right reps separately, e.g. for alternating movements
+  perSideReps?: boolean;
+  // Camera view the analysis depends on, any view works when omitted
+  requiredView?: CameraView;
+  tempo?: TempoSettings;
+  rangeOfMotion?: RangeOfMotionSettings;
+  rules?: ExerciseRules;
+  // Overrides for the keypoint smoothing filter, e.g. for very fast movements
+  poseFilter?: Partial<PoseFilterSettings>;
+  // Form issue ids that mean a rep was done with momentum
+  cheatIssues?: string[];
+}
+
+/**
+ * Reps of one exercise within a freestyle session
+ */
+export interface WorkoutSet {
+  exercise: Exercise;
+  reps: number;
+  sideReps?: SideRepCounts;
+  repHistory?: RepRecord[];
 }
 
 export interface WorkoutSession {
   exercise: Exercise;
   reps: number;
+  sideReps?: SideRepCounts;
+  holdSeconds?: number;
+  averageRepsPerMinute?: number;
+  repHistory?: RepRecord[];
+  // Only set for freestyle sessions, one entry per recognised exercise
+  sets?: WorkoutSet[];
   duration: number; // in seconds
   startTime: Date;
   endTime?: Date;
 }
 
+// Half of the screen a player stands in during a head-to-head match
+export type PlayerLane = 'left' | 'right';
+
+// First to a rep target, or most reps before the time runs out
+export type VersusMode = 'race' | 'timed';
+
+export interface VersusSettings {
+  mode: VersusMode;
+  targetReps: number;
+  durationSeconds: number;
+}
+
+export interface VersusPlayerResult {
+  reps: number;
+  repHistory?: RepRecord[];
+}
+
+export interface VersusSession {
+  exercise: Exercise;
+  settings: VersusSettings;
+  players: Record<PlayerLane, VersusPlayerResult>;
+  // Null when the match ended level
+  winner: PlayerLane | null;
+  duration: number; // in seconds
+  startTime: Date;
+  endTime: Date;
+}
+
 export interface PoseKeypoint {
   x: number;
   y: number;
@@ -25,13 +86,369 @@ export interface PoseKeypoint {
 export interface Pose {
   keypoints: PoseKeypoint[];
   score: number;
+  // Track ID that stays with the same person across frames
+  id?: number;
+}
+
+export type ExerciseState =
+  | 'up'
+  | 'down'
+  | 'extended'
+  | 'contracted'
+  | 'holding'
+  | 'resting'
+  | 'open'
+  | 'closed';
+
+export type TrackingMode = 'reps' | 'hold' | 'cadence';
+
+export type BodySide = 'left' | 'right';
+
+/**
+ * How to split a rep's tracked measure into tempo phases
+ */
+export interface TempoSettings {
+  // Extreme of the tracked measure where the movement turns around
+  turnaround: 'min' | 'max';
+  // Whether the lowering (eccentric) phase comes before or after the turnaround
+  eccentricPhase: 'first' | 'second';
+  // Lowering faster than this triggers "too fast" feedback
+  minEccentricMs: number;
+}
+
+/**
+ * Expected tracked measure values at the start and at full range
+ */
+export interface RangeOfMotionSettings {
+  start: number;
+  target: number;
+  // Angles are shown in degrees, relative measures only as a percentage
+  unit: 'degrees' | 'relative';
+}
+
+export interface RepRangeOfMotion {
+  min: number;
+  max: number;
+}
+
+export interface RepTempo {
+  eccentricMs: number;
+  pauseMs: number;
+  concentricMs: number;
+}
+
+export interface SideMeasures {
+  left: number;
+  right: number;
+}
+
+export interface MeasureSample {
+  time: number;
+  value: number;
+  sides?: SideMeasures;
+  torsoLean?: number;
+}
+
+/**
+ * Shoulder and elbow positions relative to the hips with the arms
+ * straight, measured again on every rep
+ */
+export interface SwingReference {
+  shoulderOffsetX: number;
+  shoulderOffsetY: number;
+  leftElbowOffsetX?: number;
+  rightElbowOffsetX?: number;
+  torsoLength: number;
+}
+
+export type RepStrictness = 'lenient' | 'standard' | 'strict';
+
+/**
+ * Left and right side of one rep of a bilateral exercise
+ */
+export interface RepSymmetry {
+  left: RepRangeOfMotion;
+  right: RepRangeOfMotion;
+  // Positive when the left side reached the turnaround after the right
+  turnaroundOffsetMs: number | null;
+}
+
+/**
+ * Structured data for one counted rep
+ */
+export interface RepRecord {
+  repNumber: number;
+  completedAt: number;
+  tempo: RepTempo | null;
+  rangeOfMotion: RepRangeOfMotion | null;
+  formIssues: string[];
+  // Only for exercises that track both sides
+  symmetry?: RepSymmetry | null;
+  // Only for exercises with cheatIssues - a form issue showed momentum
+  cheated?: boolean;
+  // Degrees from vertical, only for exercises that measure the back
+  maxTorsoLean?: number | null;
+  // 0-100 from depth, symmetry and form issues
+  quality: number;
+  // False when the rep was rejected for falling below the strictness level
+  counted: boolean;
+}
+
+/**
+ * Body proportions in normalized coordinates, any part may be out of view
+ */
+export interface BodyMeasures {
+  hipY?: number;
+  kneeWidth?: number;
+  torsoLength?: number;
+  thighLength?: number;
+  elbowAngle?: number;
+  kneeAngle?: number;
+}
+
+/**
+ * Per-user baselines from the calibration step, stored per exercise
+ */
+export interface CalibrationBaseline {
+  // Averaged over the neutral starting position
+  kneeWidth?: number;
+  torsoLength?: number;
+  thighLength?: number;
+  fullExtensionElbowAngle?: number;
+  // Deepest bend of the slow reference rep
+  referenceMinElbowAngle?: number;
+  referenceMinKneeAngle?: number;
+  calibratedAt: number;
+}
+
+/**
+ * Which way the user faces the camera
+ */
+export type CameraView = 'front' | 'side';
+
+export interface SideRepCounts {
+  left: number;
+  right: number;
 }
 
-export type ExerciseState = 'up' | 'down' | 'extended' | 'contracted';
+export interface SidePhase {
+  currentState: ExerciseState;
+  lastStateChange: number;
+}
+
+/**
+ * Something that happened on a frame, emitted alongside the new rep state
+ */
+export type RepEvent =
+  | {
+      type: 'phase-changed';
+      timestamp: number;
+      from: ExerciseState;
+      to: ExerciseState;
+    }
+  | {
+      type: 'rep-completed';
+      timestamp: number;
+      repCount: number;
+      side?: BodySide;
+      // Only for exercises with per-rep history
+      record?: RepRecord;
+    }
+  | {
+      type: 'rep-rejected';
+      timestamp: number;
+      record: RepRecord;
+    }
+  | {
+      type: 'form-issue-detected';
+      timestamp: number;
+      issue: string;
+    }
+  | {
+      type: 'feedback-changed';
+      timestamp: number;
+      message: string;
+      feedbackType: FeedbackType;
+    }
+  | {
+      type: 'view-changed';
+      timestamp: number;
+      view: CameraView;
+    }
+  | { type: 'body-lost'; timestamp: number }
+  | { type: 'body-found'; timestamp: number };
 
 export interface RepCounterState {
   currentState: ExerciseState;
   repCount: number;
   lastStateChange: number;
   formFeedback: string | null;
+  // Kind of feedback produced on this frame, plain form feedback when unset
+  feedbackType?: FeedbackType;
+  // Detected camera view, unknown until the torso has been seen clearly
+  cameraView?: CameraView;
+  // Only set for exercises with perSideReps
+  sideRepCounts?: SideRepCounts;
+  // Side performing the rep in progress
+  activeSide?: BodySide;
+  // Independent phase per side for unilateral exercises
+  sidePhases?: Record<BodySide, SidePhase>;
+  // Upper body position at the start of the current curl
+  swingReference?: SwingReference;
+  // Shoulder-hip distance at the rack position of the current press
+  rackTorsoLength?: number;
+  // Only set for hold exercises - valid hold time in ms
+  holdTime?: number;
+  lastFrameTime?: number;
+  // Only set for cadence exercises - completion time of every rep
+  repTimestamps?: number[];
+  // Primary value the analyzer tracked this frame, e.g. an elbow angle
+  trackedMeasure?: number;
+  // Left and right values of the tracked measure for bilateral exercises
+  trackedSideMeasures?: SideMeasures;
+  // Shoulder-hip line angle from vertical in degrees, when it can be seen
+  torsoLean?: number;
+  // Form issue ids detected this frame, e.g. 'elbow-drift'
+  formIssues?: string[];
+  // Tracked measure samples and form issues since the last rep
+  repSamples?: MeasureSample[];
+  repFormIssues?: string[];
+  repHistory?: RepRecord[];
+  // Events emitted by the frame that produced this state
+  events?: RepEvent[];
+}
+
+/**
+ * Body joint present on both sides of the MoveNet skeleton
+ */
+export type BodyJoint =
+  | 'eye'
+  | 'ear'
+  | 'shoulder'
+  | 'elbow'
+  | 'wrist'
+  | 'hip'
+  | 'knee'
+  | 'ankle';
+
+/**
+ * How left and right side values are combined into one measure
+ */
+export type SideSelection =
+  | 'left'
+  | 'right'
+  | 'average'
+  | 'min'
+  | 'max'
+  // Side seen most clearly, e.g. the one facing a side-on camera
+  | 'nearest';
+
+/**
+ * Angle in degrees at the middle joint, e.g. shoulder-elbow-wrist
+ */
+export interface AngleMeasure {
+  kind: 'angle';
+  joints: [BodyJoint, BodyJoint, BodyJoint];
+  side: SideSelection;
+}
+
+/**
+ * How far the middle joint bends out of the line between the outer two,
+ * in degrees. Positive when it sits below the line, e.g. sagging hips
+ */
+export interface LineBendMeasure {
+  kind: 'lineBend';
+  joints: [BodyJoint, BodyJoint, BodyJoint];
+  side: SideSelection;
+}
+
+/**
+ * Signed offset along one axis from one joint to another (to - from)
+ */
+export interface OffsetMeasure {
+  kind: 'offset';
+  from: BodyJoint;
+  to: BodyJoint;
+  axis: 'x' | 'y';
+  side: SideSelection;
+}
+
+/**
+ * Horizontal distance between the left and right instance of a joint
+ */
+export interface WidthMeasure {
+  kind: 'width';
+  joint: BodyJoint;
+}
+
+export type ExerciseMeasure =
+  | AngleMeasure
+  | LineBendMeasure
+  | OffsetMeasure
+  | WidthMeasure;
+
+/**
+ * Calibrated value a threshold gives way to for users with a limited
+ * range of motion
+ */
+export type CalibratedThreshold =
+  | 'elbow-extension'
+  | 'elbow-bend'
+  | 'knee-bend';
+
+export interface PhaseTransition {
+  from: ExerciseState;
+  to: ExerciseState;
+  measure: string;
+  when: 'above' | 'below';
+  threshold: number;
+  // Extra margin the measure has to clear past the threshold
+  hysteresis?: number;
+  calibratedThreshold?: CalibratedThreshold;
+  countsRep?: boolean;
+  feedback?: string;
+}
+
+export interface FormCheck {
+  // Form issue id recorded against the rep, defaults to the feedback text
+  id?: string;
+  measure: string;
+  when: 'above' | 'below';
+  threshold: number;
+  // Only evaluated while in one of these phases, all phases if omitted
+  phases?: ExerciseState[];
+  // Only evaluated from these camera views, any view if omitted
+  views?: CameraView[];
+  feedback: string;
+  // Plain form feedback when unset
+  feedbackType?: FeedbackType;
+}
+
+/**
+ * Coaching while waiting in a phase, unlike a form check it isn't held
+ * against the rep
+ */
+export interface PhaseCue {
+  phase: ExerciseState;
+  measure: string;
+  when: 'above' | 'below';
+  threshold: number;
+  feedback: string;
+}
+
+/**
+ * Declarative rep counting definition run by processRuleBasedRep
+ */
+export interface ExerciseRules {
+  measures: Record<string, ExerciseMeasure>;
+  // Measure reported as the tracked measure for tempo and history
+  trackedMeasure?: string;
+  phases: ExerciseState[];
+  transitions: PhaseTransition[];
+  formChecks?: FormCheck[];
+  cues?: PhaseCue[];
+  visibilityFeedback: string;
+  minConfidence?: number;
+  debounceMs?: number;
+  feedbackIntervalMs?: number;
 }
@@ -0,0 +1,34 @@
+/**
+ * Kind of coaching message, decides its priority and cooldown
+ */
+export type FeedbackType =
+  | 'safety'
+  | 'form'
+  | 'visibility'
+  | 'rep'
+  | 'fatigue'
+  | 'encouragement'
+  | 'status';
+
+export interface FeedbackMessage {
+  text: string;
+  type: FeedbackType;
+  // Shorter text for speech, defaults to the displayed text
+  spokenText?: string;
+  // Skip cooldowns and repeat suppression
+  force?: boolean;
+}
+
+export interface FeedbackTypeSettings {
+  // Higher priority messages can't be replaced by lower ones straight away
+  priority: number;
+  // Minimum time between two messages of this type
+  cooldownMs: number;
+  // Minimum time before the exact same text is shown again
+  repeatMs: number;
+  force?: boolean;
+  // Replaces the current message even during its minimum display time
+  interrupts?: boolean;
+  // Status messages are only displayed, never spoken
+  spoken: boolean;
+}
@@ -0,0 +1,33 @@
+export type KeypointFilterType = 'one-euro' | 'exponential' | 'none';
+
+/**
+ * Settings for the temporal filter applied to keypoints before analysis
+ */
+export interface PoseFilterSettings {
+  filter: KeypointFilterType;
+  // One-Euro: cutoff at rest in Hz, how fast it opens up with speed,
+  // and the cutoff used to smooth the speed estimate itself
+  minCutoff: number;
+  beta: number;
+  derivativeCutoff: number;
+  // Exponential: weight of the newest frame, 0 to 1
+  alpha: number;
+  // Keypoints below this confidence keep their last good value
+  minConfidence: number;
+  // How long a last good value or a rejected jump may be held
+  holdMs: number;
+  // Normalized units per second - faster jumps are treated as glitches
+  maxVelocity: number;
+}
+
+export interface KeypointFilterState {
+  x: number;
+  y: number;
+  // Smoothed velocity, only used by the One-Euro filter
+  dx: number;
+  dy: number;
+  confidence: number;
+  time: number;
+  // Last frame the keypoint was trusted as-is
+  lastGoodTime: number;
+}
@@ -9,3 +9,17 @@ export interface SpeechQueueItem {
   priority: number;
   rate?: number;
 }
+
+/**
+ * Speech-to-text engine behind voice commands. Starting and stopping
+ * are safe to repeat, so a fake only has to record calls and push
+ * transcripts
+ */
+export interface SpeechRecognizer {
+  start: () => void;
+  stop: () => void;
+  // Final transcript of each phrase heard
+  onTranscript: ((transcript: string) => void) | null;
+  // Listening can't continue, e.g. microphone access was denied
+  onError: ((message: string) => void) | null;
+}
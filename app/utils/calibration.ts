@@ -0,0 +1,306 @@
+import type {
+  BodyMeasures,
+  CalibrationBaseline,
+  Exercise,
+  Pose,
+  PoseKeypoint,
+} from '~/types/exercise';
+import { calculateAngle } from '~/utils/poseAnalysis/processBicepCurlRep';
+
+/**
+ * Only rep exercises scale their thresholds to a baseline, holds and
+ * cadence drills have no reference rep to calibrate against
+ */
+export function isCalibrationAvailable(exercise: Exercise): boolean {
+  return (exercise.trackingMode ?? 'reps') === 'reps';
+}
+
+export type CalibrationPhase =
+  | 'neutral'
+  | 'reference-rep'
+  | 'complete';
+
+export interface CalibrationState {
+  phase: CalibrationPhase;
+  phaseStartedAt: number;
+  // Consecutive still frames in the neutral position
+  neutralSamples: { time: number; measures: BodyMeasures }[];
+  neutral?: BodyMeasures;
+  repStarted: boolean;
+  // Extremes seen during the reference rep
+  repMax: BodyMeasures;
+  repMin: BodyMeasures;
+  baseline?: CalibrationBaseline;
+}
+
+// Stillness needed before the neutral position is taken
+const NEUTRAL_HOLD_MS = 2000;
+// Largest hip movement between frames that still counts as standing still
+const MAX_NEUTRAL_DRIFT = 0.01;
+// Share of the torso length or of 90° that starts and finishes the reference rep
+const REP_START_DEVIATION = 0.25;
+const REP_END_DEVIATION = 0.08;
+const REFERENCE_REP_TIMEOUT_MS = 15000;
+
+const MEASURE_KEYS: (keyof BodyMeasures)[] = [
+  'hipY',
+  'kneeWidth',
+  'torsoLength',
+  'thighLength',
+  'elbowAngle',
+  'kneeAngle',
+];
+
+function isVisible(...points: PoseKeypoint[]): boolean {
+  return points.every((point) => point.confidence > 0.3);
+}
+
+function distance(a: PoseKeypoint, b: PoseKeypoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function average(values: number[]): number | undefined {
+  return values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : undefined;
+}
+
+/**
+ * Body proportions for one frame, averaging whichever sides are visible
+ */
+export function measureBody(pose: Pose): BodyMeasures {
+  // MoveNet keypoint indices
+  const LEFT_SHOULDER = 5;
+  const LEFT_ELBOW = 7;
+  const LEFT_WRIST = 9;
+  const LEFT_HIP = 11;
+  const LEFT_KNEE = 13;
+  const LEFT_ANKLE = 15;
+
+  const sides = [0, 1].map((offset) => ({
+    shoulder: pose.keypoints[LEFT_SHOULDER + offset],
+    elbow: pose.keypoints[LEFT_ELBOW + offset],
+    wrist: pose.keypoints[LEFT_WRIST + offset],
+    hip: pose.keypoints[LEFT_HIP + offset],
+    knee: pose.keypoints[LEFT_KNEE + offset],
+    ankle: pose.keypoints[LEFT_ANKLE + offset],
+  }));
+
+  const perSide = (
+    measure: (side: (typeof sides)[number]) => number | null,
+  ) =>
+    average(
+      sides
+        .map(measure)
+        .filter(
+          (value): value is number => value !== null && !isNaN(value),
+        ),
+    );
+
+  const [left, right] = sides;
+  const bothVisible = (key: keyof (typeof sides)[number]) =>
+    isVisible(left[key], right[key]);
+
+  return {
+    hipY: perSide((side) =>
+      isVisible(side.hip) ? side.hip.y : null,
+    ),
+    kneeWidth: bothVisible('knee')
+      ? Math.abs(left.knee.x - right.knee.x)
+      : undefined,
+    torsoLength: perSide((side) =>
+      isVisible(side.shoulder, side.hip)
+        ? distance(side.shoulder, side.hip)
+        : null,
+    ),
+    thighLength: perSide((side) =>
+      isVisible(side.hip, side.knee)
+        ? distance(side.hip, side.knee)
+        : null,
+    ),
+    elbowAngle: perSide((side) =>
+      isVisible(side.shoulder, side.elbow, side.wrist)
+        ? calculateAngle(side.shoulder, side.elbow, side.wrist)
+        : null,
+    ),
+    kneeAngle: perSide((side) =>
+      isVisible(side.hip, side.knee, side.ankle)
+        ? calculateAngle(side.hip, side.knee, side.ankle)
+        : null,
+    ),
+  };
+}
+
+/**
+ * How far a frame is from the neutral position, 0 when identical
+ */
+function getDeviation(
+  measures: BodyMeasures,
+  neutral: BodyMeasures,
+): number {
+  const deviations: number[] = [];
+
+  if (
+    measures.hipY !== undefined &&
+    neutral.hipY !== undefined &&
+    neutral.torsoLength
+  ) {
+    deviations.push(
+      Math.abs(measures.hipY - neutral.hipY) / neutral.torsoLength,
+    );
+  }
+  for (const key of ['elbowAngle', 'kneeAngle'] as const) {
+    const value = measures[key];
+    const neutralValue = neutral[key];
+    if (value !== undefined && neutralValue !== undefined) {
+      deviations.push(Math.abs(value - neutralValue) / 90);
+    }
+  }
+
+  return deviations.length > 0 ? Math.max(...deviations) : 0;
+}
+
+function combineMeasures(
+  current: BodyMeasures,
+  measures: BodyMeasures,
+  pick: (a: number, b: number) => number,
+): BodyMeasures {
+  const combined: BodyMeasures = { ...current };
+  for (const key of MEASURE_KEYS) {
+    const value = measures[key];
+    if (value === undefined) continue;
+    const existing = combined[key];
+    combined[key] =
+      existing === undefined ? value : pick(existing, value);
+  }
+  return combined;
+}
+
+function createBaseline(
+  neutral: BodyMeasures,
+  repMin: BodyMeasures,
+  repMax: BodyMeasures,
+  repStarted: boolean,
+  now: number,
+): CalibrationBaseline {
+  return {
+    kneeWidth: neutral.kneeWidth,
+    torsoLength: neutral.torsoLength,
+    thighLength: neutral.thighLength,
+    fullExtensionElbowAngle:
+      repStarted && repMax.elbowAngle !== undefined
+        ? Math.max(repMax.elbowAngle, neutral.elbowAngle ?? 0)
+        : neutral.elbowAngle,
+    ...(repStarted && {
+      referenceMinElbowAngle: repMin.elbowAngle,
+      referenceMinKneeAngle: repMin.kneeAngle,
+    }),
+    calibratedAt: now,
+  };
+}
+
+export function createCalibrationState(
+  now: number,
+): CalibrationState {
+  return {
+    phase: 'neutral',
+    phaseStartedAt: now,
+    neutralSamples: [],
+    repStarted: false,
+    repMax: {},
+    repMin: {},
+  };
+}
+
+/**
+ * Advance the calibration with one frame
+ */
+export function updateCalibration(
+  state: CalibrationState,
+  pose: Pose,
+  now: number,
+): CalibrationState {
+  if (state.phase === 'complete') {
+    return state;
+  }
+
+  const measures = measureBody(pose);
+
+  if (state.phase === 'neutral') {
+    // Hips and torso are the minimum to normalize anything against
+    if (
+      measures.hipY === undefined ||
+      measures.torsoLength === undefined
+    ) {
+      return { ...state, neutralSamples: [] };
+    }
+
+    const lastSample =
+      state.neutralSamples[state.neutralSamples.length - 1];
+    const isStill =
+      !lastSample ||
+      Math.abs(measures.hipY - (lastSample.measures.hipY ?? 0)) <=
+        MAX_NEUTRAL_DRIFT;
+    const neutralSamples = isStill
+      ? [...state.neutralSamples, { time: now, measures }]
+      : [{ time: now, measures }];
+
+    if (now - neutralSamples[0].time < NEUTRAL_HOLD_MS) {
+      return { ...state, neutralSamples };
+    }
+
+    const neutral: BodyMeasures = {};
+    for (const key of MEASURE_KEYS) {
+      neutral[key] = average(
+        neutralSamples
+          .map((sample) => sample.measures[key])
+          .filter((value): value is number => value !== undefined),
+      );
+    }
+
+    return {
+      ...state,
+      phase: 'reference-rep',
+      phaseStartedAt: now,
+      neutralSamples: [],
+      neutral,
+    };
+  }
+
+  const neutral = state.neutral ?? {};
+  const deviation = getDeviation(measures, neutral);
+  const repStarted =
+    state.repStarted || deviation > REP_START_DEVIATION;
+  const repMin = repStarted
+    ? combineMeasures(state.repMin, measures, Math.min)
+    : state.repMin;
+  const repMax = repStarted
+    ? combineMeasures(state.repMax, measures, Math.max)
+    : state.repMax;
+
+  // Back at the start after a real movement, or give up waiting
+  const repFinished =
+    state.repStarted && deviation < REP_END_DEVIATION;
+  const timedOut =
+    now - state.phaseStartedAt > REFERENCE_REP_TIMEOUT_MS;
+
+  if (!repFinished && !timedOut) {
+    return { ...state, repStarted, repMin, repMax };
+  }
+
+  return {
+    ...state,
+    phase: 'complete',
+    phaseStartedAt: now,
+    repStarted,
+    repMin,
+    repMax,
+    baseline: createBaseline(
+      neutral,
+      repMin,
+      repMax,
+      repStarted,
+      now,
+    ),
+  };
+}
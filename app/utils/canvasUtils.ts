@@ -1,13 +1,15 @@
 import type { Pose } from '~/types/exercise';
 
 /**
- * Draw pose keypoints and skeleton on canvas
+ * Draw pose keypoints and skeleton on canvas. Bystanders are drawn with
+ * a lower opacity so the tracked person stands out
  */
 export function drawPose(
   ctx: CanvasRenderingContext2D,
   pose: Pose,
   canvasWidth: number,
   canvasHeight: number,
+  opacity = 1,
 ): void {
   // MoveNet keypoint connections (skeleton)
   const connections = [
@@ -25,11 +27,9 @@ export function drawPose(
     [14, 16], // right_knee to right_ankle
   ];
 
-  // Clear canvas
-  ctx.clearRect(0, 0, canvasWidth, canvasHeight);
-
   // Save context state
   ctx.save();
+  ctx.globalAlpha = opacity;
 
   // Draw skeleton
   ctx.strokeStyle = '#00ff00';
@@ -87,3 +87,69 @@ export function resizeCanvas(
   canvas.style.width = `${video.offsetWidth}px`;
   canvas.style.height = `${video.offsetHeight}px`;
 }
+
+/**
+ * Draw a ring in the middle of the canvas that fills up while a control
+ * gesture is held
+ */
+export function drawGestureProgress(
+  ctx: CanvasRenderingContext2D,
+  progress: number,
+  label: string,
+  canvasWidth: number,
+  canvasHeight: number,
+): void {
+  const centerX = canvasWidth / 2;
+  const centerY = canvasHeight / 2;
+  const radius = Math.min(canvasWidth, canvasHeight) / 8;
+
+  ctx.save();
+
+  ctx.lineWidth = 10;
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.3)';
+  ctx.beginPath();
+  ctx.arc(centerX, centerY, radius, 0, 2 * Math.PI);
+  ctx.stroke();
+
+  // Fill clockwise from the top
+  ctx.strokeStyle = '#3b82f6';
+  ctx.beginPath();
+  ctx.arc(
+    centerX,
+    centerY,
+    radius,
+    -Math.PI / 2,
+    -Math.PI / 2 + progress * 2 * Math.PI,
+  );
+  ctx.stroke();
+
+  // The canvas is shown mirrored, so flip the text back
+  ctx.translate(centerX, centerY);
+  ctx.scale(-1, 1);
+  ctx.fillStyle = '#ffffff';
+  ctx.font = `bold ${Math.round(radius / 3)}px sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(label, 0, 0);
+
+  ctx.restore();
+}
+
+/**
+ * Draw the line between the two player lanes of a head-to-head match
+ */
+export function drawLaneDivider(
+  ctx: CanvasRenderingContext2D,
+  canvasWidth: number,
+  canvasHeight: number,
+): void {
+  ctx.save();
+  ctx.strokeStyle = 'rgba(255, 255, 255, 0.5)';
+  ctx.lineWidth = 2;
+  ctx.setLineDash([12, 8]);
+  ctx.beginPath();
+  ctx.moveTo(canvasWidth / 2, 0);
+  ctx.lineTo(canvasWidth / 2, canvasHeight);
+  ctx.stroke();
+  ctx.restore();
+}
@@ -0,0 +1,334 @@
+import type { Pose, PoseKeypoint } from '~/types/exercise';
+import {
+  calculateAngle,
+  calculateAngleFromVertical,
+} from '~/utils/poseAnalysis/processBicepCurlRep';
+
+/**
+ * Movement features for one frame. Distances are in torso lengths so
+ * they don't depend on how far the user stands from the camera
+ */
+export interface RecognitionSample {
+  time: number;
+  // Shoulder-hip line from vertical, ~90° when lying in a plank
+  bodyAngle: number;
+  elbowAngle?: number;
+  hipKneeGap?: number;
+  kneeHeightGap?: number;
+  ankleSpread?: number;
+  wristsAboveHead: boolean;
+}
+
+export interface RecognitionState {
+  samples: RecognitionSample[];
+  // Latest classification waiting to be confirmed
+  candidateId: string | null;
+  candidateSince: number;
+  // Confirmed exercise, kept through rests until another one is seen
+  exerciseId: string | null;
+  // Reps of the confirmed exercise done while it was being recognised
+  recognisedReps: number;
+}
+
+// Enough time for at least one slow rep
+const WINDOW_MS = 3000;
+// A shorter window can't tell a rep from a fidget
+const MIN_WINDOW_MS = 2500;
+// A new movement has to be seen this long before it replaces the current one
+const SWITCH_CONFIRM_MS = 1500;
+
+// Ranges across the window, in torso lengths or degrees
+const MIN_HIP_RANGE = 0.3;
+const MIN_ELBOW_RANGE = 60;
+const MIN_PRESS_ELBOW_RANGE = 40;
+const MIN_PUSH_UP_ELBOW_RANGE = 30;
+const MIN_ANKLE_SPREAD_RANGE = 0.5;
+const MIN_LUNGE_KNEE_GAP = 0.3;
+const MIN_LYING_BODY_ANGLE = 60;
+
+function isVisible(...points: PoseKeypoint[]): boolean {
+  return points.every((point) => point.confidence > 0.3);
+}
+
+function midpoint(a: PoseKeypoint, b: PoseKeypoint) {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
+
+/**
+ * Movement features for one frame, null without a visible torso
+ */
+export function measureMovement(
+  pose: Pose,
+  now: number,
+): RecognitionSample | null {
+  // MoveNet keypoint indices
+  const NOSE = 0;
+  const LEFT_SHOULDER = 5;
+  const RIGHT_SHOULDER = 6;
+  const LEFT_ELBOW = 7;
+  const RIGHT_ELBOW = 8;
+  const LEFT_WRIST = 9;
+  const RIGHT_WRIST = 10;
+  const LEFT_HIP = 11;
+  const RIGHT_HIP = 12;
+  const LEFT_KNEE = 13;
+  const RIGHT_KNEE = 14;
+  const LEFT_ANKLE = 15;
+  const RIGHT_ANKLE = 16;
+
+  const keypoint = (index: number) => pose.keypoints[index];
+  const leftShoulder = keypoint(LEFT_SHOULDER);
+  const rightShoulder = keypoint(RIGHT_SHOULDER);
+  const leftHip = keypoint(LEFT_HIP);
+  const rightHip = keypoint(RIGHT_HIP);
+
+  // From the side one half of the body is hidden, e.g. in a push-up,
+  // so a single visible side is enough for the torso
+  const leftTorsoVisible = isVisible(leftShoulder, leftHip);
+  const rightTorsoVisible = isVisible(rightShoulder, rightHip);
+  if (!leftTorsoVisible && !rightTorsoVisible) {
+    return null;
+  }
+
+  const shoulders =
+    leftTorsoVisible && rightTorsoVisible
+      ? midpoint(leftShoulder, rightShoulder)
+      : leftTorsoVisible
+        ? leftShoulder
+        : rightShoulder;
+  const hips =
+    leftTorsoVisible && rightTorsoVisible
+      ? midpoint(leftHip, rightHip)
+      : leftTorsoVisible
+        ? leftHip
+        : rightHip;
+  const torsoLength = Math.hypot(
+    shoulders.x - hips.x,
+    shoulders.y - hips.y,
+  );
+  if (torsoLength <= 0) {
+    return null;
+  }
+
+  const elbowAngles = [
+    [leftShoulder, keypoint(LEFT_ELBOW), keypoint(LEFT_WRIST)],
+    [rightShoulder, keypoint(RIGHT_ELBOW), keypoint(RIGHT_WRIST)],
+  ]
+    .filter((arm) => isVisible(...arm))
+    .map(([shoulder, elbow, wrist]) =>
+      calculateAngle(shoulder, elbow, wrist),
+    )
+    .filter((angle) => !isNaN(angle));
+
+  const leftKnee = keypoint(LEFT_KNEE);
+  const rightKnee = keypoint(RIGHT_KNEE);
+  const kneesVisible = isVisible(leftKnee, rightKnee);
+  const leftAnkle = keypoint(LEFT_ANKLE);
+  const rightAnkle = keypoint(RIGHT_ANKLE);
+
+  // Top of the head is not a keypoint, the nose is a close enough proxy
+  const nose = keypoint(NOSE);
+  const headY =
+    nose.confidence > 0.3 ? nose.y : shoulders.y - torsoLength / 3;
+  const leftWrist = keypoint(LEFT_WRIST);
+  const rightWrist = keypoint(RIGHT_WRIST);
+
+  return {
+    time: now,
+    bodyAngle: calculateAngleFromVertical(shoulders, hips),
+    elbowAngle:
+      elbowAngles.length > 0 ? Math.min(...elbowAngles) : undefined,
+    hipKneeGap: kneesVisible
+      ? (hips.y - (leftKnee.y + rightKnee.y) / 2) / torsoLength
+      : undefined,
+    kneeHeightGap: kneesVisible
+      ? Math.abs(leftKnee.y - rightKnee.y) / torsoLength
+      : undefined,
+    ankleSpread: isVisible(leftAnkle, rightAnkle)
+      ? Math.abs(leftAnkle.x - rightAnkle.x) / torsoLength
+      : undefined,
+    wristsAboveHead:
+      isVisible(leftWrist, rightWrist) &&
+      leftWrist.y < headY &&
+      rightWrist.y < headY,
+  };
+}
+
+function getRange(values: (number | undefined)[]): number {
+  const measured = values.filter(
+    (value): value is number => value !== undefined,
+  );
+  return measured.length > 0
+    ? Math.max(...measured) - Math.min(...measured)
+    : 0;
+}
+
+/**
+ * Exercise id the movement in the window looks like, null when the
+ * window is too short or nothing recognisable is happening
+ */
+export function classifyMovement(
+  samples: RecognitionSample[],
+): string | null {
+  if (
+    samples.length < 2 ||
+    samples[samples.length - 1].time - samples[0].time < MIN_WINDOW_MS
+  ) {
+    return null;
+  }
+
+  const elbowRange = getRange(
+    samples.map((sample) => sample.elbowAngle),
+  );
+  const hipRange = getRange(
+    samples.map((sample) => sample.hipKneeGap),
+  );
+  const ankleSpreadRange = getRange(
+    samples.map((sample) => sample.ankleSpread),
+  );
+  const maxKneeHeightGap = Math.max(
+    ...samples.map((sample) => sample.kneeHeightGap ?? 0),
+  );
+  const reachesOverhead = samples.some(
+    (sample) => sample.wristsAboveHead,
+  );
+  const averageBodyAngle =
+    samples.reduce((sum, sample) => sum + sample.bodyAngle, 0) /
+    samples.length;
+
+  // Most specific patterns first - a jumping jack also raises the arms
+  // and a lunge also lowers the hips
+  if (averageBodyAngle > MIN_LYING_BODY_ANGLE) {
+    return elbowRange > MIN_PUSH_UP_ELBOW_RANGE ? 'push-ups' : null;
+  }
+  if (ankleSpreadRange > MIN_ANKLE_SPREAD_RANGE && reachesOverhead) {
+    return 'jumping-jacks';
+  }
+  if (reachesOverhead && elbowRange > MIN_PRESS_ELBOW_RANGE) {
+    return 'overhead-press';
+  }
+  if (hipRange > MIN_HIP_RANGE) {
+    return maxKneeHeightGap > MIN_LUNGE_KNEE_GAP
+      ? 'lunges'
+      : 'squats';
+  }
+  if (elbowRange > MIN_ELBOW_RANGE) {
+    return 'bicep-curls';
+  }
+  return null;
+}
+
+/**
+ * Full movement cycles in the samples, each one going out to the far
+ * end of the range and back to where it started
+ */
+export function countMovementCycles(
+  exerciseId: string,
+  samples: RecognitionSample[],
+): number {
+  // The feature each exercise is classified by
+  const values = samples
+    .map((sample) => {
+      switch (exerciseId) {
+        case 'squats':
+        case 'lunges':
+          return sample.hipKneeGap;
+        case 'jumping-jacks':
+          return sample.ankleSpread;
+        default:
+          return sample.elbowAngle;
+      }
+    })
+    .filter((value): value is number => value !== undefined);
+  if (values.length < 2) {
+    return 0;
+  }
+
+  // Only the outer quarters of the range count, so jitter around the
+  // middle is not mistaken for a turnaround
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const low = min + (max - min) / 4;
+  const high = max - (max - min) / 4;
+
+  let startsHigh: boolean | null = null;
+  let isAway = false;
+  let cycles = 0;
+  for (const value of values) {
+    const end = value > high ? 'high' : value < low ? 'low' : null;
+    if (!end) continue;
+
+    if (startsHigh === null) {
+      startsHigh = end === 'high';
+    } else if ((end === 'high') !== startsHigh) {
+      isAway = true;
+    } else if (isAway) {
+      isAway = false;
+      cycles++;
+    }
+  }
+  return cycles;
+}
+
+export function createRecognitionState(): RecognitionState {
+  return {
+    samples: [],
+    candidateId: null,
+    candidateSince: 0,
+    exerciseId: null,
+    recognisedReps: 0,
+  };
+}
+
+/**
+ * Advance recognition by one frame. The exercise only changes once a
+ * different movement has been classified for a moment, so a single odd
+ * rep or a rest between sets keeps the current one
+ */
+export function updateRecognition(
+  state: RecognitionState,
+  pose: Pose,
+  now: number,
+): RecognitionState {
+  const sample = measureMovement(pose, now);
+  if (!sample) {
+    return state;
+  }
+
+  // A pending candidate keeps the samples it was first seen in, so the
+  // reps done while confirming it can be carried over
+  const keepSince =
+    (state.candidateId ? state.candidateSince : now) - WINDOW_MS;
+  const samples = [
+    ...state.samples.filter((previous) => previous.time >= keepSince),
+    sample,
+  ];
+  const classifiedId = classifyMovement(
+    samples.filter((previous) => now - previous.time <= WINDOW_MS),
+  );
+
+  if (!classifiedId || classifiedId === state.exerciseId) {
+    return { ...state, samples, candidateId: null };
+  }
+
+  if (classifiedId !== state.candidateId) {
+    return {
+      ...state,
+      samples,
+      candidateId: classifiedId,
+      candidateSince: now,
+    };
+  }
+
+  if (now - state.candidateSince < SWITCH_CONFIRM_MS) {
+    return { ...state, samples };
+  }
+
+  return {
+    samples,
+    candidateId: null,
+    candidateSince: 0,
+    exerciseId: classifiedId,
+    recognisedReps: countMovementCycles(classifiedId, samples),
+  };
+}
@@ -0,0 +1,123 @@
+import type {
+  FeedbackMessage,
+  FeedbackType,
+  FeedbackTypeSettings,
+} from '~/types/feedback';
+
+export const FEEDBACK_SETTINGS: Record<
+  FeedbackType,
+  FeedbackTypeSettings
+> = {
+  safety: {
+    priority: 100,
+    cooldownMs: 4000,
+    repeatMs: 4000,
+    force: true,
+    spoken: true,
+  },
+  form: {
+    priority: 60,
+    cooldownMs: 5000,
+    repeatMs: 10000,
+    spoken: true,
+  },
+  visibility: {
+    priority: 50,
+    cooldownMs: 8000,
+    repeatMs: 10000,
+    spoken: true,
+  },
+  // Only sent when the fatigue level rises, so it must not lose to rep counts
+  fatigue: { priority: 70, cooldownMs: 0, repeatMs: 0, spoken: true },
+  // Every rep is counted out loud, even right after a form cue
+  rep: {
+    priority: 40,
+    cooldownMs: 0,
+    repeatMs: 0,
+    interrupts: true,
+    spoken: true,
+  },
+  encouragement: {
+    priority: 20,
+    cooldownMs: 6000,
+    repeatMs: 15000,
+    spoken: true,
+  },
+  status: { priority: 10, cooldownMs: 0, repeatMs: 0, spoken: false },
+};
+
+// A message stays up at least this long before lower priority ones replace it
+const MIN_DISPLAY_MS = 2500;
+
+// Texts shown longer ago than this can't suppress a repeat of any type
+const MAX_REPEAT_MS = Math.max(
+  ...Object.values(FEEDBACK_SETTINGS).map(
+    (settings) => settings.repeatMs,
+  ),
+);
+
+export interface FeedbackSchedulerState {
+  current: { message: FeedbackMessage; shownAt: number } | null;
+  lastShownByType: Partial<Record<FeedbackType, number>>;
+  lastShownByText: Record<string, number>;
+}
+
+export function createFeedbackSchedulerState(): FeedbackSchedulerState {
+  return { current: null, lastShownByType: {}, lastShownByText: {} };
+}
+
+/**
+ * Whether a message may be shown now, null when it has to be dropped
+ */
+export function scheduleFeedback(
+  state: FeedbackSchedulerState,
+  message: FeedbackMessage,
+  now: number,
+): FeedbackSchedulerState | null {
+  const settings = FEEDBACK_SETTINGS[message.type];
+
+  if (!(message.force ?? settings.force)) {
+    const lastShownText = state.lastShownByText[message.text];
+    if (
+      lastShownText !== undefined &&
+      now - lastShownText < settings.repeatMs
+    ) {
+      return null;
+    }
+
+    const lastShownType = state.lastShownByType[message.type];
+    if (
+      lastShownType !== undefined &&
+      now - lastShownType < settings.cooldownMs
+    ) {
+      return null;
+    }
+
+    if (
+      !settings.interrupts &&
+      state.current &&
+      now - state.current.shownAt < MIN_DISPLAY_MS &&
+      FEEDBACK_SETTINGS[state.current.message.type].priority >
+        settings.priority
+    ) {
+      return null;
+    }
+  }
+
+  return {
+    current: { message, shownAt: now },
+    lastShownByType: {
+      ...state.lastShownByType,
+      [message.type]: now,
+    },
+    // Drop expired texts, every rep count is a new one
+    lastShownByText: {
+      ...Object.fromEntries(
+        Object.entries(state.lastShownByText).filter(
+          ([, shownAt]) => now - shownAt < MAX_REPEAT_MS,
+        ),
+      ),
+      [message.text]: now,
+    },
+  };
+}
@@ -0,0 +1,151 @@
+import type { Pose, PoseKeypoint } from '~/types/exercise';
+import { calculateAngle } from '~/utils/poseAnalysis/processBicepCurlRep';
+
+export type Gesture = 'hands-up' | 't-pose';
+
+export interface GestureHoldState {
+  gesture: Gesture | null;
+  heldSince: number;
+  lastSeenAt: number;
+  // A fired gesture has to be released before it can fire again
+  hasFired: boolean;
+}
+
+// Long enough that no exercise holds the position by accident
+export const GESTURE_HOLD_MS = 2000;
+// Keypoints flicker, a hold survives a few missed frames
+const RELEASE_GRACE_MS = 300;
+
+// T-pose limits, in shoulder widths
+const MIN_T_POSE_REACH = 0.8;
+const MAX_T_POSE_WRIST_DROP = 0.4;
+const MIN_STRAIGHT_ELBOW_ANGLE = 150;
+
+function isVisible(...points: PoseKeypoint[]): boolean {
+  return points.every((point) => point.confidence > 0.3);
+}
+
+/**
+ * Control gesture the pose is making, null for anything else
+ */
+export function detectGesture(pose: Pose): Gesture | null {
+  // MoveNet keypoint indices
+  const NOSE = 0;
+  const LEFT_SHOULDER = 5;
+  const RIGHT_SHOULDER = 6;
+  const LEFT_ELBOW = 7;
+  const RIGHT_ELBOW = 8;
+  const LEFT_WRIST = 9;
+  const RIGHT_WRIST = 10;
+
+  const keypoint = (index: number) => pose.keypoints[index];
+  const leftShoulder = keypoint(LEFT_SHOULDER);
+  const rightShoulder = keypoint(RIGHT_SHOULDER);
+  const leftWrist = keypoint(LEFT_WRIST);
+  const rightWrist = keypoint(RIGHT_WRIST);
+
+  if (
+    !isVisible(leftShoulder, rightShoulder, leftWrist, rightWrist)
+  ) {
+    return null;
+  }
+
+  const shoulderWidth = Math.abs(leftShoulder.x - rightShoulder.x);
+  if (shoulderWidth <= 0) {
+    return null;
+  }
+
+  // Top of the head is not a keypoint, the nose is a close enough proxy
+  const nose = keypoint(NOSE);
+  const headY = isVisible(nose)
+    ? nose.y
+    : Math.min(leftShoulder.y, rightShoulder.y) - shoulderWidth / 2;
+  if (leftWrist.y < headY && rightWrist.y < headY) {
+    return 'hands-up';
+  }
+
+  const centerX = (leftShoulder.x + rightShoulder.x) / 2;
+  const isArmOutstretched = (
+    shoulder: PoseKeypoint,
+    elbow: PoseKeypoint,
+    wrist: PoseKeypoint,
+  ) =>
+    isVisible(elbow) &&
+    calculateAngle(shoulder, elbow, wrist) >
+      MIN_STRAIGHT_ELBOW_ANGLE &&
+    // Pointing away from the body, not across it
+    Math.sign(wrist.x - shoulder.x) ===
+      Math.sign(shoulder.x - centerX) &&
+    Math.abs(wrist.x - shoulder.x) / shoulderWidth >
+      MIN_T_POSE_REACH &&
+    Math.abs(wrist.y - shoulder.y) / shoulderWidth <
+      MAX_T_POSE_WRIST_DROP;
+
+  if (
+    isArmOutstretched(
+      leftShoulder,
+      keypoint(LEFT_ELBOW),
+      leftWrist,
+    ) &&
+    isArmOutstretched(
+      rightShoulder,
+      keypoint(RIGHT_ELBOW),
+      rightWrist,
+    )
+  ) {
+    return 't-pose';
+  }
+
+  return null;
+}
+
+export function createGestureHoldState(): GestureHoldState {
+  return {
+    gesture: null,
+    heldSince: 0,
+    lastSeenAt: 0,
+    hasFired: false,
+  };
+}
+
+/**
+ * Advance the hold by one frame with the gesture seen in it, null when
+ * no gesture was seen
+ */
+export function updateGestureHold(
+  state: GestureHoldState,
+  gesture: Gesture | null,
+  now: number,
+): GestureHoldState {
+  if (gesture === state.gesture) {
+    return gesture ? { ...state, lastSeenAt: now } : state;
+  }
+
+  if (
+    state.gesture !== null &&
+    gesture === null &&
+    now - state.lastSeenAt < RELEASE_GRACE_MS
+  ) {
+    return state;
+  }
+
+  return {
+    gesture,
+    heldSince: now,
+    lastSeenAt: now,
+    hasFired: false,
+  };
+}
+
+/**
+ * How far through the hold the current gesture is, from 0 to 1
+ */
+export function getGestureHoldProgress(
+  state: GestureHoldState,
+  now: number,
+): number {
+  if (state.gesture === null || state.hasFired) {
+    return 0;
+  }
+  return Math.min((now - state.heldSince) / GESTURE_HOLD_MS, 1);
+}
@@ -0,0 +1,20 @@
+import type { PoseKeypoint } from '~/types/exercise';
+
+/**
+ * Signed distance of the hip from the shoulder-ankle line along the Y axis.
+ * Positive means the hip sits below the line (sagging), negative above it (piked).
+ */
+export function getHipOffsetFromBodyLine(
+  shoulder: PoseKeypoint,
+  hip: PoseKeypoint,
+  ankle: PoseKeypoint,
+): number {
+  const dx = ankle.x - shoulder.x;
+  if (Math.abs(dx) < 0.01) {
+    return 0;
+  }
+
+  const t = (hip.x - shoulder.x) / dx;
+  const lineY = shoulder.y + t * (ankle.y - shoulder.y);
+  return hip.y - lineY;
+}
@@ -0,0 +1,39 @@
+// Window for the live reps per minute reading
+const LIVE_CADENCE_WINDOW_MS = 10000;
+
+/**
+ * Live reps per minute over the most recent window of reps
+ */
+export function calculateRepsPerMinute(
+  repTimestamps: number[],
+  now: number = Date.now(),
+): number {
+  const recentReps = repTimestamps.filter(
+    (timestamp) => now - timestamp <= LIVE_CADENCE_WINDOW_MS,
+  );
+  if (recentReps.length < 2) {
+    return 0;
+  }
+
+  // Measure from the first rep in the window so a fresh start isn't diluted
+  const elapsed = Math.max(now - recentReps[0], 1000);
+  return Math.round(((recentReps.length - 1) / elapsed) * 60000);
+}
+
+/**
+ * Average reps per minute between the first and last rep of the set
+ */
+export function calculateAverageRepsPerMinute(
+  repTimestamps: number[],
+): number {
+  if (repTimestamps.length < 2) {
+    return 0;
+  }
+
+  const elapsed =
+    repTimestamps[repTimestamps.length - 1] - repTimestamps[0];
+  if (elapsed <= 0) {
+    return 0;
+  }
+  return Math.round(((repTimestamps.length - 1) / elapsed) * 60000);
+}
@@ -0,0 +1,47 @@
+import type { CalibrationBaseline } from '~/types/exercise';
+
+// Thigh length of an average adult standing at the usual distance,
+// the scale the uncalibrated thresholds were tuned for
+const AVERAGE_THIGH_LENGTH = 0.2;
+
+/**
+ * Scale for distance thresholds, 1 without calibration
+ */
+export function getLegScale(
+  calibration?: CalibrationBaseline,
+): number {
+  return calibration?.thighLength
+    ? calibration.thighLength / AVERAGE_THIGH_LENGTH
+    : 1;
+}
+
+/**
+ * Angle a joint has to bend past, raised for users whose reference rep
+ * didn't bend that far
+ */
+export function getBendThreshold(
+  defaultAngle: number,
+  referenceMinAngle?: number,
+  margin: number = 15,
+): number {
+  return referenceMinAngle !== undefined
+    ? Math.max(defaultAngle, referenceMinAngle + margin)
+    : defaultAngle;
+}
+
+/**
+ * Angle that counts as a straight arm, lowered for users who can't
+ * fully extend their elbow
+ */
+export function getExtensionThreshold(
+  defaultAngle: number,
+  calibration?: CalibrationBaseline,
+  margin: number = 15,
+): number {
+  return calibration?.fullExtensionElbowAngle
+    ? Math.min(
+        defaultAngle,
+        calibration.fullExtensionElbowAngle - margin,
+      )
+    : defaultAngle;
+}
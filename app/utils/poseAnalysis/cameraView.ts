@@ -0,0 +1,142 @@
+import type {
+  CameraView,
+  Exercise,
+  Pose,
+  PoseKeypoint,
+} from '~/types/exercise';
+import type { RepAnalyzer } from './getRepAnalyzer';
+
+// Shoulder and hip width relative to torso length. Facing the camera
+// the shoulders are almost as wide as the torso is long, side-on they
+// overlap. Coordinates are normalized per axis, so the video aspect ratio
+// squeezes the front value - the gap between the two thresholds absorbs that
+const FRONT_VIEW_RATIO = 0.35;
+const SIDE_VIEW_RATIO = 0.2;
+
+function distance(a: PoseKeypoint, b: PoseKeypoint): number {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+function midpoint(a: PoseKeypoint, b: PoseKeypoint): PoseKeypoint {
+  return {
+    x: (a.x + b.x) / 2,
+    y: (a.y + b.y) / 2,
+    confidence: Math.min(a.confidence, b.confidence),
+  };
+}
+
+/**
+ * Front or side view from the torso shape, null when it can't be told
+ */
+export function detectCameraView(pose: Pose): CameraView | null {
+  // MoveNet keypoint indices
+  const LEFT_SHOULDER = 5;
+  const RIGHT_SHOULDER = 6;
+  const LEFT_HIP = 11;
+  const RIGHT_HIP = 12;
+
+  const leftShoulder = pose.keypoints[LEFT_SHOULDER];
+  const rightShoulder = pose.keypoints[RIGHT_SHOULDER];
+  const leftHip = pose.keypoints[LEFT_HIP];
+  const rightHip = pose.keypoints[RIGHT_HIP];
+
+  // Side-on, the far shoulder and hip are often hidden, but MoveNet
+  // still guesses them close to the near ones, so a low bar is enough
+  if (
+    [leftShoulder, rightShoulder, leftHip, rightHip].some(
+      (point) => point.confidence <= 0.2,
+    )
+  ) {
+    return null;
+  }
+
+  const torsoLength = distance(
+    midpoint(leftShoulder, rightShoulder),
+    midpoint(leftHip, rightHip),
+  );
+  if (torsoLength < 0.05) {
+    return null;
+  }
+
+  const widthRatio =
+    (distance(leftShoulder, rightShoulder) +
+      distance(leftHip, rightHip)) /
+    2 /
+    torsoLength;
+
+  if (widthRatio > FRONT_VIEW_RATIO) return 'front';
+  if (widthRatio < SIDE_VIEW_RATIO) return 'side';
+  return null;
+}
+
+/**
+ * Which way a side-on user faces along x, 1 towards larger x and -1
+ * towards smaller x. The nose sits in front of the shoulders, so null
+ * when it is hidden or lines up with them, e.g. facing the camera
+ */
+export function getFacingDirection(pose: Pose): 1 | -1 | null {
+  // MoveNet keypoint indices
+  const NOSE = 0;
+  const LEFT_SHOULDER = 5;
+  const RIGHT_SHOULDER = 6;
+
+  const nose = pose.keypoints[NOSE];
+  const leftShoulder = pose.keypoints[LEFT_SHOULDER];
+  const rightShoulder = pose.keypoints[RIGHT_SHOULDER];
+
+  if (
+    [nose, leftShoulder, rightShoulder].some(
+      (point) => point.confidence <= 0.3,
+    )
+  ) {
+    return null;
+  }
+
+  const noseOffset = nose.x - midpoint(leftShoulder, rightShoulder).x;
+  if (Math.abs(noseOffset) < 0.02) {
+    return null;
+  }
+  return noseOffset > 0 ? 1 : -1;
+}
+
+/**
+ * Wrap an analyzer so it sees the detected camera view in its state, and
+ * ask the user to turn when the exercise needs a different view
+ */
+export function withCameraView(
+  analyzer: RepAnalyzer,
+  exercise: Exercise,
+): RepAnalyzer {
+  return (pose, state) => {
+    // In-between readings keep the last clear view
+    const cameraView = detectCameraView(pose) ?? state.cameraView;
+    const viewState =
+      cameraView === state.cameraView
+        ? state
+        : { ...state, cameraView };
+
+    const nextState = analyzer(pose, viewState);
+    const turnFeedback =
+      exercise.requiredView === 'side'
+        ? `Turn sideways to the camera for ${exercise.name.toLowerCase()}`
+        : `Face the camera for ${exercise.name.toLowerCase()}`;
+    const wrongView =
+      exercise.requiredView !== undefined &&
+      cameraView !== undefined &&
+      cameraView !== exercise.requiredView;
+
+    if (wrongView && nextState.formFeedback !== turnFeedback) {
+      return {
+        ...nextState,
+        cameraView,
+        formFeedback: turnFeedback,
+        feedbackType: 'visibility',
+      };
+    }
+
+    // Some analyzers build a fresh state, so carry the view over
+    return nextState.cameraView === cameraView
+      ? nextState
+      : { ...nextState, cameraView };
+  };
+}
@@ -0,0 +1,122 @@
+import type { RepRecord } from '~/types/exercise';
+
+// The opening reps of a set are the reference for velocity and depth
+const BASELINE_REPS = 2;
+
+// Velocity loss cut-offs commonly used to cap a set
+const MODERATE_VELOCITY_LOSS = 20;
+const HIGH_VELOCITY_LOSS = 35;
+// Range shrinks less than speed before form breaks down
+const MODERATE_RANGE_LOSS = 10;
+const HIGH_RANGE_LOSS = 20;
+
+export type FatigueLevel = 'fresh' | 'moderate' | 'high';
+
+export const FATIGUE_LEVELS: FatigueLevel[] = [
+  'fresh',
+  'moderate',
+  'high',
+];
+
+export interface FatigueEstimate {
+  // Drop in rep speed versus the opening reps, 0 when not slower
+  velocityLossPercent: number | null;
+  // Drop in range of motion versus the opening reps
+  rangeLossPercent: number | null;
+  level: FatigueLevel;
+}
+
+/**
+ * Average speed through the lifting phase in tracked measure units per
+ * second. Without a tempo the whole rep duration stands in for it
+ */
+function getRepVelocity(
+  rep: RepRecord,
+  previous: RepRecord | undefined,
+): number | null {
+  if (!rep.rangeOfMotion) {
+    return null;
+  }
+
+  const durationMs =
+    rep.tempo && rep.tempo.concentricMs > 0
+      ? rep.tempo.concentricMs
+      : previous
+        ? rep.completedAt - previous.completedAt
+        : 0;
+  if (durationMs <= 0) {
+    return null;
+  }
+
+  const span = rep.rangeOfMotion.max - rep.rangeOfMotion.min;
+  return span / (durationMs / 1000);
+}
+
+function getLossPercent(values: (number | null)[]): number | null {
+  const measured = values.filter(
+    (value): value is number => value !== null,
+  );
+  if (measured.length <= BASELINE_REPS) {
+    return null;
+  }
+
+  const baseline =
+    measured
+      .slice(0, BASELINE_REPS)
+      .reduce((sum, value) => sum + value, 0) / BASELINE_REPS;
+  if (baseline <= 0) {
+    return null;
+  }
+
+  const latest = measured[measured.length - 1];
+  return Math.round(Math.max(1 - latest / baseline, 0) * 100);
+}
+
+/**
+ * Velocity loss and range decay of the latest rep against the first
+ * reps of the set, null until there are enough reps to compare
+ */
+export function estimateFatigue(
+  repHistory: RepRecord[],
+): FatigueEstimate | null {
+  const velocityLossPercent = getLossPercent(
+    repHistory.map((rep, index) =>
+      getRepVelocity(rep, repHistory[index - 1]),
+    ),
+  );
+  const rangeLossPercent = getLossPercent(
+    repHistory.map((rep) =>
+      rep.rangeOfMotion
+        ? rep.rangeOfMotion.max - rep.rangeOfMotion.min
+        : null,
+    ),
+  );
+  if (velocityLossPercent === null && rangeLossPercent === null) {
+    return null;
+  }
+
+  const velocityLoss = velocityLossPercent ?? 0;
+  const rangeLoss = rangeLossPercent ?? 0;
+  const level: FatigueLevel =
+    velocityLoss >= HIGH_VELOCITY_LOSS || rangeLoss >= HIGH_RANGE_LOSS
+      ? 'high'
+      : velocityLoss >= MODERATE_VELOCITY_LOSS ||
+          rangeLoss >= MODERATE_RANGE_LOSS
+        ? 'moderate'
+        : 'fresh';
+
+  return { velocityLossPercent, rangeLossPercent, level };
+}
+
+/**
+ * Coaching cue for reaching a fatigue level, null for fresh
+ */
+export function getFatigueCue(level: FatigueLevel): string | null {
+  if (level === 'moderate') {
+    return 'Reps are slowing down - last two reps';
+  }
+  if (level === 'high') {
+    return 'Rep speed has dropped a lot - consider ending the set';
+  }
+  return null;
+}
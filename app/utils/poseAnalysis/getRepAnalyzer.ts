@@ -0,0 +1,67 @@
+import type {
+  CalibrationBaseline,
+  Exercise,
+  Pose,
+  RepCounterState,
+  RepStrictness,
+} from '~/types/exercise';
+import { processBicepCurlRep } from './processBicepCurlRep';
+import { processJumpingJackRep } from './processJumpingJackRep';
+import { processLungeRep } from './processLungeRep';
+import { processOverheadPressRep } from './processOverheadPressRep';
+import { processPlankHold } from './processPlankHold';
+import { processRuleBasedRep } from './processRuleBasedRep';
+import { processSquatRep } from './processSquatRep';
+import { processUnilateralCurlRep } from './processUnilateralCurlRep';
+import { processWallSitHold } from './processWallSitHold';
+import { withCameraView } from './cameraView';
+import { withRepEvents } from './withRepEvents';
+import { withRepHistory } from './withRepHistory';
+
+export type RepAnalyzer = (
+  pose: Pose,
+  state: RepCounterState,
+  // Per-user baselines, analyzers fall back to average-body thresholds
+  calibration?: CalibrationBaseline,
+) => RepCounterState;
+
+/**
+ * Hand-written analyzers for exercises without declarative rules
+ */
+const REP_ANALYZERS: Record<string, RepAnalyzer> = {
+  squats: processSquatRep,
+  'bicep-curls': processBicepCurlRep,
+  'single-arm-curls': processUnilateralCurlRep,
+  lunges: processLungeRep,
+  'overhead-press': processOverheadPressRep,
+  plank: processPlankHold,
+  'wall-sit': processWallSitHold,
+  'jumping-jacks': processJumpingJackRep,
+};
+
+/**
+ * Resolve the analyzer for an exercise, preferring its declarative rules
+ */
+export function getRepAnalyzer(
+  exercise: Exercise,
+  strictness?: RepStrictness,
+  calibration?: CalibrationBaseline,
+): RepAnalyzer | undefined {
+  const { rules } = exercise;
+  const analyzer: RepAnalyzer | undefined = rules
+    ? (pose, state, baseline) =>
+        processRuleBasedRep(pose, state, rules, baseline)
+    : REP_ANALYZERS[exercise.id];
+  if (!analyzer) return undefined;
+
+  const calibratedAnalyzer: RepAnalyzer = (pose, state) =>
+    analyzer(pose, state, calibration);
+
+  return withRepEvents(
+    withRepHistory(
+      withCameraView(calibratedAnalyzer, exercise),
+      exercise,
+      strictness,
+    ),
+  );
+}
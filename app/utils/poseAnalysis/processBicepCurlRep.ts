@@ -2,7 +2,15 @@ import type {
   Pose,
   RepCounterState,
   ExerciseState,
+  CalibrationBaseline,
+  SwingReference,
 } from '~/types/exercise';
+import type { FeedbackType } from '~/types/feedback';
+import {
+  getBendThreshold,
+  getExtensionThreshold,
+} from './calibrationThresholds';
+import { getFacingDirection } from './cameraView';
 
 /**
  * Calculate angle between three points using law of cosines
@@ -31,12 +39,27 @@ export function calculateAngle(
   return (angle * 180) / Math.PI;
 }
 
+/**
+ * Calculate how far the line from bottom to top leans away from vertical, in degrees
+ */
+export function calculateAngleFromVertical(
+  top: { x: number; y: number },
+  bottom: { x: number; y: number },
+): number {
+  const angle = Math.atan2(
+    Math.abs(top.x - bottom.x),
+    bottom.y - top.y,
+  );
+  return (angle * 180) / Math.PI;
+}
+
 /**
  * Bicep curl rep counter logic
  */
 export function processBicepCurlRep(
   pose: Pose,
   state: RepCounterState,
+  calibration?: CalibrationBaseline,
 ): RepCounterState {
   // MoveNet keypoint indices
   const LEFT_SHOULDER = 5;
@@ -45,6 +68,8 @@ export function processBicepCurlRep(
   const RIGHT_SHOULDER = 6;
   const RIGHT_ELBOW = 8;
   const RIGHT_WRIST = 10;
+  const LEFT_HIP = 11;
+  const RIGHT_HIP = 12;
 
   const leftShoulder = pose.keypoints[LEFT_SHOULDER];
   const leftElbow = pose.keypoints[LEFT_ELBOW];
@@ -52,6 +77,8 @@ export function processBicepCurlRep(
   const rightShoulder = pose.keypoints[RIGHT_SHOULDER];
   const rightElbow = pose.keypoints[RIGHT_ELBOW];
   const rightWrist = pose.keypoints[RIGHT_WRIST];
+  const leftHip = pose.keypoints[LEFT_HIP];
+  const rightHip = pose.keypoints[RIGHT_HIP];
 
   // Check if keypoints are visible for at least one arm
   // Lower confidence threshold to 0.3 and count how many points are visible
@@ -85,6 +112,7 @@ export function processBicepCurlRep(
     return {
       ...state,
       formFeedback: 'Position yourself so your arms are visible',
+      feedbackType: 'visibility',
     };
   }
 
@@ -161,9 +189,142 @@ export function processBicepCurlRep(
   const now = Date.now();
   const timeSinceLastChange = now - state.lastStateChange;
 
-  // Prevent state changes too frequently (debounce) - increased for smoother detection
-  if (timeSinceLastChange < 500) {
-    return state;
+  // Elbow angle of the arm driving the rep
+  const trackedMeasure =
+    primaryAngle !== 999 && activeArm !== 'unknown'
+      ? primaryAngle
+      : undefined;
+  const trackedSideMeasures =
+    leftAngle !== 999 && rightAngle !== 999
+      ? { left: leftAngle, right: rightAngle }
+      : undefined;
+
+  // Form issues are tracked every frame, feedback about them is throttled below
+  // Only check pace if we have reliable measurements for both arms
+  const armsOutOfSync =
+    leftAngle !== 999 &&
+    rightAngle !== 999 &&
+    Math.abs(leftAngle - rightAngle) > 50;
+
+  // More tolerant thresholds for state detection
+  const CONTRACTED_ANGLE = getBendThreshold(
+    80,
+    calibration?.referenceMinElbowAngle,
+  );
+  const EXTENDED_ANGLE = getExtensionThreshold(140, calibration);
+
+  // Momentum - shoulders or elbows moving away from where they were with
+  // the arms straight. Offsets are from the hips so stepping is ignored
+  // and scaled by torso length so distance to the camera doesn't matter
+  const MAX_SHOULDER_SHIFT = 0.15;
+  // Facing the camera a lean only shortens the torso, about 25° for this
+  const MAX_SHOULDER_DROP = 0.08;
+  const MAX_ELBOW_SHIFT = 0.2;
+  let swingReference = state.swingReference;
+  let torsoSwinging = false;
+  let elbowDrifting = false;
+
+  const hipsVisible =
+    leftHip.confidence > 0.3 && rightHip.confidence > 0.3;
+  const shouldersVisible =
+    leftShoulder.confidence > 0.3 && rightShoulder.confidence > 0.3;
+
+  if (hipsVisible && shouldersVisible) {
+    const hipX = (leftHip.x + rightHip.x) / 2;
+    const hipY = (leftHip.y + rightHip.y) / 2;
+    const shoulderOffsetX =
+      (leftShoulder.x + rightShoulder.x) / 2 - hipX;
+    const shoulderOffsetY =
+      (leftShoulder.y + rightShoulder.y) / 2 - hipY;
+    const posture: SwingReference = {
+      shoulderOffsetX,
+      shoulderOffsetY,
+      leftElbowOffsetX:
+        leftElbow.confidence > 0.3
+          ? leftElbow.x - leftHip.x
+          : undefined,
+      rightElbowOffsetX:
+        rightElbow.confidence > 0.3
+          ? rightElbow.x - rightHip.x
+          : undefined,
+      torsoLength: Math.hypot(shoulderOffsetX, shoulderOffsetY),
+    };
+
+    if (
+      trackedMeasure !== undefined &&
+      trackedMeasure > EXTENDED_ANGLE
+    ) {
+      // Arms straight - the next rep is measured from here
+      swingReference = posture;
+    } else if (
+      trackedMeasure !== undefined &&
+      swingReference &&
+      swingReference.torsoLength > 0
+    ) {
+      // Swinging throws the shoulders back. Side-on that is away from the
+      // way the user faces, facing the camera the shoulders drop towards
+      // the hips as the torso tilts away
+      const facing =
+        state.cameraView === 'side' ? getFacingDirection(pose) : null;
+      const shoulderBackShift =
+        facing !== null
+          ? (swingReference.shoulderOffsetX -
+              posture.shoulderOffsetX) *
+            facing
+          : 0;
+      const shoulderDrop =
+        state.cameraView !== 'side'
+          ? posture.shoulderOffsetY - swingReference.shoulderOffsetY
+          : 0;
+      const elbowShift = (current?: number, start?: number) =>
+        current !== undefined && start !== undefined
+          ? Math.abs(current - start)
+          : 0;
+      const maxElbowShift = Math.max(
+        elbowShift(
+          posture.leftElbowOffsetX,
+          swingReference.leftElbowOffsetX,
+        ),
+        elbowShift(
+          posture.rightElbowOffsetX,
+          swingReference.rightElbowOffsetX,
+        ),
+      );
+
+      torsoSwinging =
+        shoulderBackShift / swingReference.torsoLength >
+          MAX_SHOULDER_SHIFT ||
+        shoulderDrop / swingReference.torsoLength > MAX_SHOULDER_DROP;
+      elbowDrifting =
+        maxElbowShift / swingReference.torsoLength > MAX_ELBOW_SHIFT;
+    }
+  } else if (activeArm === 'left' || activeArm === 'right') {
+    // Without hips fall back to the elbow's distance from the shoulder
+    const elbow = activeArm === 'left' ? leftElbow : rightElbow;
+    const shoulder =
+      activeArm === 'left' ? leftShoulder : rightShoulder;
+
+    // Only check if both points have good confidence
+    if (elbow.confidence > 0.4 && shoulder.confidence > 0.4) {
+      elbowDrifting = Math.abs(elbow.x - shoulder.x) > 0.15;
+    }
+  }
+
+  const formIssues = [
+    ...(armsOutOfSync ? ['uneven-arms'] : []),
+    ...(elbowDrifting ? ['elbow-drift'] : []),
+    ...(torsoSwinging ? ['torso-swing'] : []),
+  ];
+
+  // Prevent state changes too frequently (debounce)
+  if (timeSinceLastChange < 400) {
+    return {
+      ...state,
+      trackedMeasure,
+      trackedSideMeasures,
+      formIssues,
+      swingReference,
+    };
   }
 
   // Add minimum time between form feedback updates (3 seconds)
@@ -173,37 +334,23 @@ export function processBicepCurlRep(
   let newState = state.currentState;
   let newRepCount = state.repCount;
   let formFeedback = '';
+  let feedbackType: FeedbackType | undefined;
 
   // Form feedback based on arm position - only if it's time to update
-  if (shouldUpdateFeedback) {
-    // Only provide feedback if we have reliable measurements for both arms
-    if (leftAngle !== 999 && rightAngle !== 999) {
-      const angleDifference = Math.abs(leftAngle - rightAngle);
-      if (angleDifference > 50) {
-        formFeedback =
-          'Try to keep both arms moving at the same pace';
-      }
-    }
+  if (shouldUpdateFeedback && armsOutOfSync) {
+    formFeedback = 'Try to keep both arms moving at the same pace';
+  }
 
-    // Check elbow positioning - using the active arm for feedback
-    if (activeArm === 'left' || activeArm === 'right') {
-      const elbow = activeArm === 'left' ? leftElbow : rightElbow;
-      const shoulder =
-        activeArm === 'left' ? leftShoulder : rightShoulder;
-
-      // Only provide feedback if both points have good confidence
-      if (elbow.confidence > 0.4 && shoulder.confidence > 0.4) {
-        // Check if elbow is wandering forward or backward too much
-        if (Math.abs(elbow.x - shoulder.x) > 0.15) {
-          formFeedback = 'Keep your elbow close to your body';
-        }
-      }
-    }
+  // Momentum is called out straight away, while the rep can still be saved
+  if (elbowDrifting) {
+    formFeedback = 'Pin your elbows to your sides';
+    feedbackType = 'form';
   }
 
-  // More tolerant thresholds for state detection
-  const CONTRACTED_ANGLE = 80;
-  const EXTENDED_ANGLE = 140;
+  if (torsoSwinging) {
+    formFeedback = "Don't swing - keep your torso still";
+    feedbackType = 'form';
+  }
 
   // Check if we have a reliable angle measurement before processing state transitions
   const hasReliableAngle = primaryAngle !== 999;
@@ -218,7 +365,11 @@ export function processBicepCurlRep(
       newState = 'contracted';
 
       // Add form feedback for contracted position - only on major state transitions or timed updates
-      if (primaryAngle < 40 && shouldUpdateFeedback) {
+      if (
+        primaryAngle < 40 &&
+        shouldUpdateFeedback &&
+        !formFeedback
+      ) {
         formFeedback = 'Good contraction! Hold briefly at the top';
       }
     } else if (
@@ -229,12 +380,25 @@ export function processBicepCurlRep(
       newState = 'extended';
       newRepCount = state.repCount + 1;
 
-      // Add form feedback for extended position
-      // Always provide feedback after completing a rep
-      formFeedback = 'Good extension! Control the downward movement';
+      // Always provide feedback after completing a rep, calling out
+      // momentum anywhere in it
+      const repIssues = [
+        ...(state.repFormIssues ?? []),
+        ...formIssues,
+      ];
+      if (repIssues.includes('torso-swing')) {
+        formFeedback = 'Cheated rep - you swung the weight up';
+        feedbackType = 'form';
+      } else if (repIssues.includes('elbow-drift')) {
+        formFeedback = 'Cheated rep - your elbows left your sides';
+        feedbackType = 'form';
+      } else {
+        formFeedback =
+          'Good extension! Control the downward movement';
+      }
     } else {
       // In-between states, provide guidance - only if it's time to update
-      if (shouldUpdateFeedback) {
+      if (shouldUpdateFeedback && !formFeedback) {
         if (state.currentState === 'extended' && primaryAngle < 110) {
           formFeedback = 'Continue curling upward';
         } else if (
@@ -258,5 +422,10 @@ export function processBicepCurlRep(
     lastStateChange:
       newState !== state.currentState ? now : state.lastStateChange,
     formFeedback: formFeedback || null,
+    trackedMeasure,
+    trackedSideMeasures,
+    formIssues,
+    swingReference,
+    feedbackType,
   };
 }
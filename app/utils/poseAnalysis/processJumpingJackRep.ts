@@ -0,0 +1,132 @@
+import type {
+  Pose,
+  RepCounterState,
+  ExerciseState,
+} from '~/types/exercise';
+
+/**
+ * Jumping jack rep counter logic, tuned for fast cadence reps
+ */
+export function processJumpingJackRep(
+  pose: Pose,
+  state: RepCounterState,
+): RepCounterState {
+  // MoveNet keypoint indices
+  const NOSE = 0;
+  const LEFT_SHOULDER = 5;
+  const RIGHT_SHOULDER = 6;
+  const LEFT_WRIST = 9;
+  const RIGHT_WRIST = 10;
+  const LEFT_HIP = 11;
+  const RIGHT_HIP = 12;
+  const LEFT_ANKLE = 15;
+  const RIGHT_ANKLE = 16;
+
+  const nose = pose.keypoints[NOSE];
+  const leftShoulder = pose.keypoints[LEFT_SHOULDER];
+  const rightShoulder = pose.keypoints[RIGHT_SHOULDER];
+  const leftWrist = pose.keypoints[LEFT_WRIST];
+  const rightWrist = pose.keypoints[RIGHT_WRIST];
+  const leftHip = pose.keypoints[LEFT_HIP];
+  const rightHip = pose.keypoints[RIGHT_HIP];
+  const leftAnkle = pose.keypoints[LEFT_ANKLE];
+  const rightAnkle = pose.keypoints[RIGHT_ANKLE];
+
+  const bodyVisible = [
+    leftShoulder,
+    rightShoulder,
+    leftWrist,
+    rightWrist,
+    leftHip,
+    rightHip,
+    leftAnkle,
+    rightAnkle,
+  ].every((point) => point.confidence > 0.3);
+
+  const timeCheck = Date.now();
+  const shouldShowVisibilityWarning =
+    timeCheck - state.lastStateChange > 3000;
+
+  if (!bodyVisible) {
+    if (shouldShowVisibilityWarning) {
+      return {
+        ...state,
+        formFeedback:
+          'Step back so your whole body is visible, hands to feet',
+        feedbackType: 'visibility',
+      };
+    }
+    return state;
+  }
+
+  // Hip width scales the foot spread check with distance from the camera
+  const hipWidth = Math.max(Math.abs(leftHip.x - rightHip.x), 0.02);
+  const ankleSpread = Math.abs(leftAnkle.x - rightAnkle.x);
+
+  const headY =
+    nose.confidence > 0.3
+      ? nose.y
+      : Math.min(leftShoulder.y, rightShoulder.y) - 0.1;
+  const handsOverhead = leftWrist.y < headY && rightWrist.y < headY;
+  const handsDown =
+    leftWrist.y > leftShoulder.y && rightWrist.y > rightShoulder.y;
+
+  // Separate open/closed spread thresholds so jitter can't flip the state
+  const feetApart = ankleSpread > hipWidth * 1.8;
+  const feetTogether = ankleSpread < hipWidth * 1.4;
+
+  const now = Date.now();
+  const timeSinceLastChange = now - state.lastStateChange;
+
+  // Only a short debounce - a fast jumping jack is ~400ms per half rep,
+  // so the 400ms debounce of the strength analyzers would drop reps
+  if (timeSinceLastChange < 150) {
+    return state;
+  }
+
+  // Form feedback only surfaces when the user is stuck in one state,
+  // which is exactly when a partial jack is not being counted
+  const shouldUpdateFeedback = timeSinceLastChange > 2000;
+
+  let newState = state.currentState;
+  let newRepCount = state.repCount;
+  let repTimestamps = state.repTimestamps ?? [];
+  let formFeedback = '';
+
+  if (state.currentState === 'closed' && handsOverhead && feetApart) {
+    newState = 'open';
+  } else if (
+    state.currentState === 'open' &&
+    handsDown &&
+    feetTogether
+  ) {
+    // Back to the start - complete rep
+    newState = 'closed';
+    newRepCount = state.repCount + 1;
+    repTimestamps = [...repTimestamps, now];
+  } else if (shouldUpdateFeedback) {
+    if (state.currentState === 'closed') {
+      if (feetApart && !handsOverhead) {
+        formFeedback = 'Bring your hands all the way overhead';
+      } else if (handsOverhead && !feetApart) {
+        formFeedback = 'Jump your feet out wider';
+      }
+    } else if (state.currentState === 'open') {
+      if (feetTogether && !handsDown) {
+        formFeedback =
+          'Bring your arms all the way down to your sides';
+      } else if (handsDown && !feetTogether) {
+        formFeedback = 'Jump your feet back together';
+      }
+    }
+  }
+
+  return {
+    currentState: newState as ExerciseState,
+    repCount: newRepCount,
+    lastStateChange:
+      newState !== state.currentState ? now : state.lastStateChange,
+    formFeedback: formFeedback || state.formFeedback,
+    repTimestamps,
+  };
+}
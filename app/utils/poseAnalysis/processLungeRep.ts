@@ -0,0 +1,212 @@
+import type {
+  Pose,
+  RepCounterState,
+  ExerciseState,
+  BodySide,
+  CalibrationBaseline,
+} from '~/types/exercise';
+import { getBendThreshold } from './calibrationThresholds';
+import {
+  calculateAngle,
+  calculateAngleFromVertical,
+} from './processBicepCurlRep';
+
+/**
+ * Alternating lunge rep counter logic with separate left/right counts
+ */
+export function processLungeRep(
+  pose: Pose,
+  state: RepCounterState,
+  calibration?: CalibrationBaseline,
+): RepCounterState {
+  // MoveNet keypoint indices
+  const LEFT_SHOULDER = 5;
+  const RIGHT_SHOULDER = 6;
+  const LEFT_HIP = 11;
+  const RIGHT_HIP = 12;
+  const LEFT_KNEE = 13;
+  const RIGHT_KNEE = 14;
+  const LEFT_ANKLE = 15;
+  const RIGHT_ANKLE = 16;
+
+  const leftShoulder = pose.keypoints[LEFT_SHOULDER];
+  const rightShoulder = pose.keypoints[RIGHT_SHOULDER];
+  const leftHip = pose.keypoints[LEFT_HIP];
+  const rightHip = pose.keypoints[RIGHT_HIP];
+  const leftKnee = pose.keypoints[LEFT_KNEE];
+  const rightKnee = pose.keypoints[RIGHT_KNEE];
+  const leftAnkle = pose.keypoints[LEFT_ANKLE];
+  const rightAnkle = pose.keypoints[RIGHT_ANKLE];
+
+  const sideRepCounts = state.sideRepCounts ?? { left: 0, right: 0 };
+
+  // Both legs are needed to tell which one is in front
+  const leftLegVisible =
+    leftHip.confidence > 0.3 &&
+    leftKnee.confidence > 0.3 &&
+    leftAnkle.confidence > 0.3;
+  const rightLegVisible =
+    rightHip.confidence > 0.3 &&
+    rightKnee.confidence > 0.3 &&
+    rightAnkle.confidence > 0.3;
+
+  const timeCheck = Date.now();
+  const shouldShowVisibilityWarning =
+    timeCheck - state.lastStateChange > 3000;
+
+  if (!leftLegVisible || !rightLegVisible) {
+    if (shouldShowVisibilityWarning) {
+      return {
+        ...state,
+        sideRepCounts,
+        formFeedback:
+          'Step back so both legs are visible from hip to ankle',
+        feedbackType: 'visibility',
+      };
+    }
+    return state;
+  }
+
+  const leftKneeAngle = calculateAngle(leftHip, leftKnee, leftAnkle);
+  const rightKneeAngle = calculateAngle(
+    rightHip,
+    rightKnee,
+    rightAnkle,
+  );
+
+  if (isNaN(leftKneeAngle) || isNaN(rightKneeAngle)) {
+    return state;
+  }
+
+  // The back knee drops towards the floor, so the front knee is the higher one
+  const frontSide: BodySide =
+    leftKnee.y < rightKnee.y ? 'left' : 'right';
+  const frontKneeAngle =
+    frontSide === 'left' ? leftKneeAngle : rightKneeAngle;
+
+  // Torso lean - angle of the shoulder-hip line away from vertical
+  const shouldersVisible =
+    leftShoulder.confidence > 0.3 && rightShoulder.confidence > 0.3;
+  const torsoLean = shouldersVisible
+    ? calculateAngleFromVertical(
+        {
+          x: (leftShoulder.x + rightShoulder.x) / 2,
+          y: (leftShoulder.y + rightShoulder.y) / 2,
+        },
+        {
+          x: (leftHip.x + rightHip.x) / 2,
+          y: (leftHip.y + rightHip.y) / 2,
+        },
+      )
+    : 0;
+
+  // Front knee over toe - knee travelling past the ankle in the
+  // direction of the step, relative to shin length so it works at any distance
+  const frontKnee = frontSide === 'left' ? leftKnee : rightKnee;
+  const frontAnkle = frontSide === 'left' ? leftAnkle : rightAnkle;
+  const backAnkle = frontSide === 'left' ? rightAnkle : leftAnkle;
+  const stepDirection = Math.sign(frontAnkle.x - backAnkle.x);
+  const shinLength = Math.hypot(
+    frontKnee.x - frontAnkle.x,
+    frontKnee.y - frontAnkle.y,
+  );
+  const kneeTravel = (frontKnee.x - frontAnkle.x) * stepDirection;
+
+  // Both faults only matter while down in the lunge. Knee travel is
+  // along the step, which a front view can't see
+  const isDown = state.currentState === 'down';
+  const torsoLeaning = isDown && torsoLean > 25;
+  const kneePastToes =
+    isDown &&
+    state.cameraView !== 'front' &&
+    shinLength > 0 &&
+    kneeTravel / shinLength > 0.35;
+  const formIssues = [
+    ...(torsoLeaning ? ['torso-lean'] : []),
+    ...(kneePastToes ? ['knee-over-toe'] : []),
+  ];
+
+  const now = Date.now();
+  const timeSinceLastChange = now - state.lastStateChange;
+
+  // Knee angle of the leg currently in front
+  const trackedMeasure = frontKneeAngle;
+
+  // Prevent state changes too frequently (debounce)
+  if (timeSinceLastChange < 400) {
+    return { ...state, trackedMeasure, formIssues };
+  }
+
+  // Add minimum time between form feedback updates (3 seconds)
+  const timeSinceLastFeedback = now - state.lastStateChange;
+  const shouldUpdateFeedback = timeSinceLastFeedback > 3000;
+
+  let newState = state.currentState;
+  let activeSide = state.activeSide;
+  let newSideRepCounts = sideRepCounts;
+  let formFeedback = '';
+
+  if (torsoLeaning) {
+    formFeedback = 'Keep your torso upright, chest proud';
+  }
+
+  if (kneePastToes) {
+    formFeedback = 'Keep your front knee behind your toes';
+  }
+
+  // Thresholds on the front knee angle
+  const DOWN_ANGLE = getBendThreshold(
+    110,
+    calibration?.referenceMinKneeAngle,
+  );
+  const UP_ANGLE = 155;
+
+  if (state.currentState === 'up' && frontKneeAngle < DOWN_ANGLE) {
+    // Lowered into the lunge - remember which leg is leading this rep
+    newState = 'down';
+    activeSide = frontSide;
+    console.log(`Lunge: Transitioning to DOWN with ${frontSide} leg`);
+  } else if (
+    state.currentState === 'down' &&
+    leftKneeAngle > UP_ANGLE &&
+    rightKneeAngle > UP_ANGLE
+  ) {
+    // Both legs straight again - complete rep for the leading leg
+    newState = 'up';
+    const side = activeSide ?? frontSide;
+    newSideRepCounts = {
+      ...sideRepCounts,
+      [side]: sideRepCounts[side] + 1,
+    };
+    activeSide = undefined;
+    console.log(
+      `Lunge rep completed! Left: ${newSideRepCounts.left}, Right: ${newSideRepCounts.right}`,
+    );
+
+    if (!formFeedback) {
+      formFeedback =
+        side === 'left'
+          ? 'Good rep! Now step with your right leg'
+          : 'Good rep! Now step with your left leg';
+    }
+  } else if (shouldUpdateFeedback && !formFeedback) {
+    // In-between states, provide guidance
+    if (state.currentState === 'up' && frontKneeAngle < 140) {
+      formFeedback = 'Lower your back knee towards the floor';
+    } else if (state.currentState === 'down') {
+      formFeedback = 'Drive through your front heel to stand up';
+    }
+  }
+
+  return {
+    currentState: newState as ExerciseState,
+    repCount: newSideRepCounts.left + newSideRepCounts.right,
+    lastStateChange:
+      newState !== state.currentState ? now : state.lastStateChange,
+    formFeedback: formFeedback || state.formFeedback,
+    sideRepCounts: newSideRepCounts,
+    activeSide,
+    trackedMeasure,
+    formIssues,
+  };
+}
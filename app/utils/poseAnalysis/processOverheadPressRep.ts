@@ -0,0 +1,264 @@
+import type {
+  Pose,
+  RepCounterState,
+  ExerciseState,
+  CalibrationBaseline,
+} from '~/types/exercise';
+import { getExtensionThreshold } from './calibrationThresholds';
+import { getFacingDirection } from './cameraView';
+import {
+  calculateAngle,
+  calculateAngleFromVertical,
+} from './processBicepCurlRep';
+
+/**
+ * Overhead press rep counter logic
+ */
+export function processOverheadPressRep(
+  pose: Pose,
+  state: RepCounterState,
+  calibration?: CalibrationBaseline,
+): RepCounterState {
+  // MoveNet keypoint indices
+  const NOSE = 0;
+  const LEFT_SHOULDER = 5;
+  const RIGHT_SHOULDER = 6;
+  const LEFT_ELBOW = 7;
+  const RIGHT_ELBOW = 8;
+  const LEFT_WRIST = 9;
+  const RIGHT_WRIST = 10;
+  const LEFT_HIP = 11;
+  const RIGHT_HIP = 12;
+
+  const nose = pose.keypoints[NOSE];
+  const leftShoulder = pose.keypoints[LEFT_SHOULDER];
+  const rightShoulder = pose.keypoints[RIGHT_SHOULDER];
+  const leftElbow = pose.keypoints[LEFT_ELBOW];
+  const rightElbow = pose.keypoints[RIGHT_ELBOW];
+  const leftWrist = pose.keypoints[LEFT_WRIST];
+  const rightWrist = pose.keypoints[RIGHT_WRIST];
+  const leftHip = pose.keypoints[LEFT_HIP];
+  const rightHip = pose.keypoints[RIGHT_HIP];
+
+  // Both arms press together, so both need to be tracked
+  const armsVisible = [
+    leftShoulder,
+    rightShoulder,
+    leftElbow,
+    rightElbow,
+    leftWrist,
+    rightWrist,
+  ].every((point) => point.confidence > 0.3);
+
+  const timeCheck = Date.now();
+  const shouldShowVisibilityWarning =
+    timeCheck - state.lastStateChange > 3000;
+
+  if (!armsVisible) {
+    if (shouldShowVisibilityWarning) {
+      return {
+        ...state,
+        formFeedback:
+          'Step back so both arms are visible, including above your head',
+        feedbackType: 'visibility',
+      };
+    }
+    return state;
+  }
+
+  const hipsVisible =
+    leftHip.confidence > 0.3 && rightHip.confidence > 0.3;
+
+  const leftElbowAngle = calculateAngle(
+    leftShoulder,
+    leftElbow,
+    leftWrist,
+  );
+  const rightElbowAngle = calculateAngle(
+    rightShoulder,
+    rightElbow,
+    rightWrist,
+  );
+
+  // Shoulder angle (hip-shoulder-elbow) is ~90° at the rack and ~180° at lockout.
+  // Without hips, fall back to the elbow sitting above the shoulder
+  let leftShoulderAngle = leftElbow.y < leftShoulder.y ? 180 : 90;
+  let rightShoulderAngle = rightElbow.y < rightShoulder.y ? 180 : 90;
+  if (hipsVisible) {
+    leftShoulderAngle = calculateAngle(
+      leftHip,
+      leftShoulder,
+      leftElbow,
+    );
+    rightShoulderAngle = calculateAngle(
+      rightHip,
+      rightShoulder,
+      rightElbow,
+    );
+  }
+
+  if (
+    [
+      leftElbowAngle,
+      rightElbowAngle,
+      leftShoulderAngle,
+      rightShoulderAngle,
+    ].some(isNaN)
+  ) {
+    return state;
+  }
+
+  const elbowAngle = Math.min(leftElbowAngle, rightElbowAngle);
+  const trackedSideMeasures = {
+    left: leftElbowAngle,
+    right: rightElbowAngle,
+  };
+  const shoulderAngle = Math.min(
+    leftShoulderAngle,
+    rightShoulderAngle,
+  );
+
+  // Top of the head is not a keypoint, the nose is a close enough proxy
+  const headY =
+    nose.confidence > 0.3
+      ? nose.y
+      : Math.min(leftShoulder.y, rightShoulder.y) - 0.1;
+  const wristsAboveHead = leftWrist.y < headY && rightWrist.y < headY;
+  const wristsAtShoulders =
+    leftWrist.y > leftShoulder.y - 0.08 &&
+    rightWrist.y > rightShoulder.y - 0.08;
+
+  // Uneven arms - one wrist trailing the other or a noticeably different bend
+  const wristHeightDifference = Math.abs(leftWrist.y - rightWrist.y);
+  const elbowAngleDifference = Math.abs(
+    leftElbowAngle - rightElbowAngle,
+  );
+  const armsUneven =
+    wristHeightDifference > 0.08 || elbowAngleDifference > 30;
+
+  // Backward lean - shoulders drifting behind the hips arches the lower back.
+  // Side-on, behind means away from the way the user faces. Facing the
+  // camera the lean tilts the torso away from it, so the shoulder-hip
+  // distance shrinks compared to the rack position or the calibrated torso
+  const shoulderCenter = {
+    x: (leftShoulder.x + rightShoulder.x) / 2,
+    y: (leftShoulder.y + rightShoulder.y) / 2,
+  };
+  const hipCenter = {
+    x: (leftHip.x + rightHip.x) / 2,
+    y: (leftHip.y + rightHip.y) / 2,
+  };
+  const torsoLength = Math.hypot(
+    shoulderCenter.x - hipCenter.x,
+    shoulderCenter.y - hipCenter.y,
+  );
+  const rackTorsoLength =
+    hipsVisible && state.currentState === 'down' && wristsAtShoulders
+      ? torsoLength
+      : state.rackTorsoLength;
+  // About 25° away from the camera shortens the torso by a tenth
+  const MAX_TORSO_SHORTENING = 0.1;
+  const referenceTorsoLength =
+    rackTorsoLength ?? calibration?.torsoLength;
+  const facing = getFacingDirection(pose);
+  const leaningBackSideOn =
+    state.cameraView === 'side' &&
+    facing !== null &&
+    (shoulderCenter.x - hipCenter.x) * facing < 0 &&
+    calculateAngleFromVertical(shoulderCenter, hipCenter) > 15;
+  const leaningBackFacing =
+    state.cameraView !== 'side' &&
+    referenceTorsoLength !== undefined &&
+    torsoLength < referenceTorsoLength * (1 - MAX_TORSO_SHORTENING);
+  const leaningBack =
+    hipsVisible && (leaningBackSideOn || leaningBackFacing);
+
+  const formIssues = [
+    ...(armsUneven ? ['uneven-arms'] : []),
+    ...(leaningBack ? ['leaning-back'] : []),
+  ];
+
+  const now = Date.now();
+  const timeSinceLastChange = now - state.lastStateChange;
+
+  // Prevent state changes too frequently (debounce)
+  if (timeSinceLastChange < 400) {
+    return {
+      ...state,
+      trackedMeasure: elbowAngle,
+      trackedSideMeasures,
+      formIssues,
+      rackTorsoLength,
+    };
+  }
+
+  // Add minimum time between form feedback updates (3 seconds)
+  const timeSinceLastFeedback = now - state.lastStateChange;
+  const shouldUpdateFeedback = timeSinceLastFeedback > 3000;
+
+  let newState = state.currentState;
+  let newRepCount = state.repCount;
+  let formFeedback = '';
+
+  if (shouldUpdateFeedback && armsUneven) {
+    formFeedback = 'Press both arms evenly';
+  }
+
+  // Safety issue, takes priority over the symmetry cue
+  if (leaningBack) {
+    formFeedback =
+      "Don't lean back - squeeze your glutes and brace your core";
+  }
+
+  // Lockout thresholds for the top, rack position for the bottom
+  const LOCKOUT_ELBOW_ANGLE = getExtensionThreshold(160, calibration);
+  const LOCKOUT_SHOULDER_ANGLE = 150;
+  const RACK_ELBOW_ANGLE = 100;
+
+  if (
+    state.currentState === 'down' &&
+    wristsAboveHead &&
+    elbowAngle > LOCKOUT_ELBOW_ANGLE &&
+    shoulderAngle > LOCKOUT_SHOULDER_ANGLE
+  ) {
+    // Full lockout overhead
+    newState = 'up';
+
+    if (!formFeedback && shouldUpdateFeedback) {
+      formFeedback = 'Great lockout! Lower with control';
+    }
+  } else if (
+    state.currentState === 'up' &&
+    wristsAtShoulders &&
+    elbowAngle < RACK_ELBOW_ANGLE
+  ) {
+    // Back at shoulder height - complete rep
+    newState = 'down';
+    newRepCount = state.repCount + 1;
+
+    // Always provide feedback after completing a rep
+    if (!formFeedback) {
+      formFeedback = 'Good rep! Press straight up again';
+    }
+  } else if (shouldUpdateFeedback && !formFeedback) {
+    // In-between states, provide guidance
+    if (state.currentState === 'down' && wristsAboveHead) {
+      formFeedback = 'Lock out your elbows fully at the top';
+    } else if (state.currentState === 'up' && !wristsAboveHead) {
+      formFeedback = 'Bring the weights back down to shoulder height';
+    }
+  }
+
+  return {
+    currentState: newState as ExerciseState,
+    repCount: newRepCount,
+    lastStateChange:
+      newState !== state.currentState ? now : state.lastStateChange,
+    formFeedback: formFeedback || state.formFeedback,
+    feedbackType: leaningBack ? 'safety' : undefined,
+    trackedMeasure: elbowAngle,
+    trackedSideMeasures,
+    formIssues,
+    rackTorsoLength,
+  };
+}
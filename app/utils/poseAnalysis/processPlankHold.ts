@@ -0,0 +1,104 @@
+import type { Pose, RepCounterState } from '~/types/exercise';
+import type { FeedbackType } from '~/types/feedback';
+import { calculateAngle } from './processBicepCurlRep';
+import { getHipOffsetFromBodyLine } from './bodyLine';
+import { updateHoldState } from './updateHoldState';
+
+/**
+ * Plank hold logic, expects a side-on camera view
+ */
+export function processPlankHold(
+  pose: Pose,
+  state: RepCounterState,
+): RepCounterState {
+  // MoveNet keypoint indices
+  const LEFT_SHOULDER = 5;
+  const RIGHT_SHOULDER = 6;
+  const LEFT_HIP = 11;
+  const RIGHT_HIP = 12;
+  const LEFT_ANKLE = 15;
+  const RIGHT_ANKLE = 16;
+
+  // From the side, use whichever half of the body faces the camera
+  const leftConfidence =
+    pose.keypoints[LEFT_SHOULDER].confidence +
+    pose.keypoints[LEFT_HIP].confidence +
+    pose.keypoints[LEFT_ANKLE].confidence;
+  const rightConfidence =
+    pose.keypoints[RIGHT_SHOULDER].confidence +
+    pose.keypoints[RIGHT_HIP].confidence +
+    pose.keypoints[RIGHT_ANKLE].confidence;
+  const useLeft = leftConfidence >= rightConfidence;
+
+  const shoulder =
+    pose.keypoints[useLeft ? LEFT_SHOULDER : RIGHT_SHOULDER];
+  const hip = pose.keypoints[useLeft ? LEFT_HIP : RIGHT_HIP];
+  const ankle = pose.keypoints[useLeft ? LEFT_ANKLE : RIGHT_ANKLE];
+
+  const now = Date.now();
+  const shouldUpdateFeedback = now - state.lastStateChange > 3000;
+
+  if (
+    shoulder.confidence <= 0.3 ||
+    hip.confidence <= 0.3 ||
+    ankle.confidence <= 0.3
+  ) {
+    return updateHoldState(
+      state,
+      false,
+      shouldUpdateFeedback
+        ? 'Turn sideways so your shoulders, hips and ankles are visible'
+        : '',
+      'visibility',
+    );
+  }
+
+  const bodyLineAngle = calculateAngle(shoulder, hip, ankle);
+  if (isNaN(bodyLineAngle)) {
+    return state;
+  }
+
+  // Body must be roughly horizontal to be a plank at all
+  const bodySlope =
+    (Math.atan2(
+      Math.abs(ankle.y - shoulder.y),
+      Math.abs(ankle.x - shoulder.x),
+    ) *
+      180) /
+    Math.PI;
+  const isHorizontal = bodySlope < 35;
+
+  const BODY_LINE_TOLERANCE = 160;
+  const isStraight = bodyLineAngle > BODY_LINE_TOLERANCE;
+  const isHolding = isHorizontal && isStraight;
+
+  let formFeedback = '';
+  let feedbackType: FeedbackType | undefined;
+
+  if (!isHorizontal) {
+    if (shouldUpdateFeedback) {
+      formFeedback =
+        'Get down into a plank on your forearms or hands';
+    }
+  } else if (!isStraight) {
+    // Tell the user straight away - the clock has already stopped.
+    // Sagging hips load the lower back, so that one is a safety cue
+    const hipsSagging =
+      getHipOffsetFromBodyLine(shoulder, hip, ankle) > 0;
+    formFeedback = hipsSagging
+      ? 'Hips dropping - lift them back in line'
+      : 'Hips too high - lower them into a straight line';
+    feedbackType = hipsSagging ? 'safety' : 'form';
+  } else if (state.currentState !== 'holding') {
+    formFeedback = 'Good plank! Hold it there';
+  } else if (shouldUpdateFeedback) {
+    formFeedback = 'Keep breathing and squeeze your core';
+  }
+
+  return updateHoldState(
+    state,
+    isHolding,
+    formFeedback,
+    feedbackType,
+  );
+}
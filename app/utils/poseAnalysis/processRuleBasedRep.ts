@@ -0,0 +1,317 @@
+import type {
+  Pose,
+  PoseKeypoint,
+  RepCounterState,
+  ExerciseRules,
+  ExerciseMeasure,
+  BodyJoint,
+  BodySide,
+  CalibrationBaseline,
+  PhaseTransition,
+} from '~/types/exercise';
+import type { FeedbackType } from '~/types/feedback';
+import { KEYPOINT_INDEX } from '~/constants/keypoints';
+import { getHipOffsetFromBodyLine } from './bodyLine';
+import {
+  getBendThreshold,
+  getExtensionThreshold,
+} from './calibrationThresholds';
+import { calculateAngle } from './processBicepCurlRep';
+
+const DEFAULT_MIN_CONFIDENCE = 0.3;
+const DEFAULT_DEBOUNCE_MS = 400;
+const DEFAULT_FEEDBACK_INTERVAL_MS = 3000;
+
+type SidedMeasure = Exclude<ExerciseMeasure, { kind: 'width' }>;
+
+function getJoint(
+  pose: Pose,
+  side: BodySide,
+  joint: BodyJoint,
+): PoseKeypoint {
+  return pose.keypoints[KEYPOINT_INDEX[`${side}_${joint}`]];
+}
+
+function getMeasureJoints(measure: SidedMeasure): BodyJoint[] {
+  return measure.kind === 'offset'
+    ? [measure.from, measure.to]
+    : measure.joints;
+}
+
+/**
+ * Evaluate a measure for one side, null if any keypoint is unreliable
+ */
+function measureSide(
+  pose: Pose,
+  measure: SidedMeasure,
+  side: BodySide,
+  minConfidence: number,
+): number | null {
+  const points = getMeasureJoints(measure).map((joint) =>
+    getJoint(pose, side, joint),
+  );
+
+  if (points.some((point) => point.confidence <= minConfidence)) {
+    return null;
+  }
+
+  if (measure.kind === 'offset') {
+    return points[1][measure.axis] - points[0][measure.axis];
+  }
+
+  const angle = calculateAngle(points[0], points[1], points[2]);
+  if (isNaN(angle)) {
+    return null;
+  }
+  if (measure.kind === 'angle') {
+    return angle;
+  }
+
+  const offset = getHipOffsetFromBodyLine(
+    points[0],
+    points[1],
+    points[2],
+  );
+  return offset < 0 ? angle - 180 : 180 - angle;
+}
+
+/**
+ * Summed keypoint confidence of the joints a measure reads on one side
+ */
+function getSideConfidence(
+  pose: Pose,
+  measure: SidedMeasure,
+  side: BodySide,
+): number {
+  return getMeasureJoints(measure).reduce(
+    (sum, joint) => sum + getJoint(pose, side, joint).confidence,
+    0,
+  );
+}
+
+/**
+ * Evaluate a measure, combining sides according to its side selection
+ */
+export function evaluateMeasure(
+  pose: Pose,
+  measure: ExerciseMeasure,
+  minConfidence: number = DEFAULT_MIN_CONFIDENCE,
+): number | null {
+  if (measure.kind === 'width') {
+    const left = getJoint(pose, 'left', measure.joint);
+    const right = getJoint(pose, 'right', measure.joint);
+    if (
+      left.confidence <= minConfidence ||
+      right.confidence <= minConfidence
+    ) {
+      return null;
+    }
+    return Math.abs(left.x - right.x);
+  }
+
+  if (measure.side === 'left' || measure.side === 'right') {
+    return measureSide(pose, measure, measure.side, minConfidence);
+  }
+
+  // From the side one half of the body is hidden, so only read the half
+  // facing the camera instead of combining both
+  if (measure.side === 'nearest') {
+    const side =
+      getSideConfidence(pose, measure, 'left') >=
+      getSideConfidence(pose, measure, 'right')
+        ? 'left'
+        : 'right';
+    return measureSide(pose, measure, side, minConfidence);
+  }
+
+  // Use whichever sides are visible, like the hand-written analyzers do
+  const values = (['left', 'right'] as const)
+    .map((side) => measureSide(pose, measure, side, minConfidence))
+    .filter((value): value is number => value !== null);
+
+  if (values.length === 0) return null;
+
+  switch (measure.side) {
+    case 'min':
+      return Math.min(...values);
+    case 'max':
+      return Math.max(...values);
+    default:
+      return (
+        values.reduce((sum, value) => sum + value, 0) / values.length
+      );
+  }
+}
+
+/**
+ * Transition threshold, relaxed to the user's calibrated range
+ */
+function getTransitionThreshold(
+  transition: PhaseTransition,
+  calibration?: CalibrationBaseline,
+): number {
+  switch (transition.calibratedThreshold) {
+    case 'elbow-extension':
+      return getExtensionThreshold(transition.threshold, calibration);
+    case 'elbow-bend':
+      return getBendThreshold(
+        transition.threshold,
+        calibration?.referenceMinElbowAngle,
+      );
+    case 'knee-bend':
+      return getBendThreshold(
+        transition.threshold,
+        calibration?.referenceMinKneeAngle,
+      );
+    default:
+      return transition.threshold;
+  }
+}
+
+function passes(
+  value: number,
+  when: 'above' | 'below',
+  threshold: number,
+  margin: number = 0,
+): boolean {
+  return when === 'above'
+    ? value > threshold + margin
+    : value < threshold - margin;
+}
+
+/**
+ * Generic rep counter logic driven by a declarative rule set
+ */
+export function processRuleBasedRep(
+  pose: Pose,
+  state: RepCounterState,
+  rules: ExerciseRules,
+  calibration?: CalibrationBaseline,
+): RepCounterState {
+  const now = Date.now();
+  const minConfidence = rules.minConfidence ?? DEFAULT_MIN_CONFIDENCE;
+
+  // Recover if we are somehow in a phase this exercise does not have
+  if (!rules.phases.includes(state.currentState)) {
+    return {
+      ...state,
+      currentState: rules.phases[0],
+      lastStateChange: now,
+    };
+  }
+
+  const values: Record<string, number | null> = {};
+  for (const [name, measure] of Object.entries(rules.measures)) {
+    values[name] = evaluateMeasure(pose, measure, minConfidence);
+  }
+
+  const trackedMeasure = rules.trackedMeasure
+    ? (values[rules.trackedMeasure] ?? undefined)
+    : undefined;
+
+  const timeSinceLastChange = now - state.lastStateChange;
+  const shouldUpdateFeedback =
+    timeSinceLastChange >
+    (rules.feedbackIntervalMs ?? DEFAULT_FEEDBACK_INTERVAL_MS);
+
+  // Transitions need every measure they read, form checks skip missing ones
+  const activeTransitions = rules.transitions.filter(
+    (transition) => transition.from === state.currentState,
+  );
+  const hasTrackedMeasures = activeTransitions.every(
+    (transition) => values[transition.measure] != null,
+  );
+
+  if (!hasTrackedMeasures) {
+    if (shouldUpdateFeedback) {
+      return {
+        ...state,
+        formFeedback: rules.visibilityFeedback,
+        feedbackType: 'visibility',
+      };
+    }
+    return state;
+  }
+
+  // Checks are listed in priority order, first failing check wins feedback.
+  // Form is called out on every frame, the feedback scheduler throttles it
+  const failedChecks = (rules.formChecks ?? []).filter((check) => {
+    const value = values[check.measure];
+    return (
+      value != null &&
+      (!check.phases || check.phases.includes(state.currentState)) &&
+      (!check.views ||
+        !state.cameraView ||
+        check.views.includes(state.cameraView)) &&
+      passes(value, check.when, check.threshold)
+    );
+  });
+  const formIssues = failedChecks.map(
+    (check) => check.id ?? check.feedback,
+  );
+  const failedCheck = failedChecks[0];
+  const formFeedback = failedCheck?.feedback ?? '';
+  const feedbackType: FeedbackType | undefined = failedCheck
+    ? (failedCheck.feedbackType ?? 'form')
+    : undefined;
+
+  // Prevent state changes too frequently (debounce)
+  if (
+    timeSinceLastChange < (rules.debounceMs ?? DEFAULT_DEBOUNCE_MS)
+  ) {
+    return {
+      ...state,
+      formFeedback: formFeedback || state.formFeedback,
+      feedbackType,
+      trackedMeasure,
+      formIssues,
+    };
+  }
+
+  const transition = activeTransitions.find((candidate) =>
+    passes(
+      values[candidate.measure] as number,
+      candidate.when,
+      getTransitionThreshold(candidate, calibration),
+      candidate.hysteresis,
+    ),
+  );
+
+  if (!transition) {
+    // In-between phases, coach towards the next one once in a while
+    const cue =
+      !formFeedback && shouldUpdateFeedback
+        ? rules.cues?.find((candidate) => {
+            const value = values[candidate.measure];
+            return (
+              candidate.phase === state.currentState &&
+              value != null &&
+              passes(value, candidate.when, candidate.threshold)
+            );
+          })
+        : undefined;
+
+    return {
+      ...state,
+      formFeedback:
+        formFeedback || cue?.feedback || state.formFeedback,
+      feedbackType,
+      trackedMeasure,
+      formIssues,
+    };
+  }
+
+  return {
+    ...state,
+    currentState: transition.to,
+    repCount: transition.countsRep
+      ? state.repCount + 1
+      : state.repCount,
+    lastStateChange: now,
+    formFeedback:
+      formFeedback || transition.feedback || state.formFeedback,
+    feedbackType,
+    trackedMeasure,
+    formIssues,
+  };
+}
@@ -2,7 +2,12 @@ import type {
   Pose,
   RepCounterState,
   ExerciseState,
+  CalibrationBaseline,
 } from '~/types/exercise';
+import type { FeedbackType } from '~/types/feedback';
+import { getLegScale } from './calibrationThresholds';
+import { calculateAngleFromVertical } from './processBicepCurlRep';
+import { measureRepMaxTorsoLean } from './torsoLean';
 
 /**
  * Squat rep counter logic
@@ -10,8 +15,11 @@ import type {
 export function processSquatRep(
   pose: Pose,
   state: RepCounterState,
+  calibration?: CalibrationBaseline,
 ): RepCounterState {
   // MoveNet keypoint indices
+  const LEFT_SHOULDER = 5;
+  const RIGHT_SHOULDER = 6;
   const LEFT_HIP = 11;
   const RIGHT_HIP = 12;
   const LEFT_KNEE = 13;
@@ -19,6 +27,8 @@ export function processSquatRep(
   const LEFT_ANKLE = 15;
   const RIGHT_ANKLE = 16;
 
+  const leftShoulder = pose.keypoints[LEFT_SHOULDER];
+  const rightShoulder = pose.keypoints[RIGHT_SHOULDER];
   const leftHip = pose.keypoints[LEFT_HIP];
   const rightHip = pose.keypoints[RIGHT_HIP];
   const leftKnee = pose.keypoints[LEFT_KNEE];
@@ -60,6 +70,7 @@ export function processSquatRep(
       ...state,
       formFeedback:
         'Position yourself so your hips and knees are visible',
+      feedbackType: 'visibility',
     };
   }
 
@@ -124,33 +135,146 @@ export function processSquatRep(
   const now = Date.now();
   const timeSinceLastChange = now - state.lastStateChange;
 
-  // Prevent state changes too frequently (debounce) - increased to reduce feedback frequency
-  if (timeSinceLastChange < 800) {
-    return state;
+  // Hip-knee distances scale with the user's leg length on screen
+  const legScale = getLegScale(calibration);
+
+  // Hip-to-knee depth, grows as the hips drop below the knees
+  const trackedMeasure = hasReliablePositions
+    ? avgHipY - avgKneeY
+    : undefined;
+  const trackedSideMeasures =
+    hasReliablePositions && leftSideVisible && rightSideVisible
+      ? {
+          left: leftHip.y - leftKnee.y,
+          right: rightHip.y - rightKnee.y,
+        }
+      : undefined;
+
+  // Knees overlap when seen side-on, so stance width needs a front view.
+  // Calibrated users are compared against their own standing knee width
+  const minKneeWidth = calibration?.kneeWidth
+    ? calibration.kneeWidth * 0.75
+    : 0.08;
+  const kneesTooNarrow =
+    hasReliablePositions &&
+    state.cameraView !== 'side' &&
+    kneeWidth < minKneeWidth;
+
+  // Back and shin angles from vertical, measured on the side nearer the
+  // camera. From the front a forward lean only shortens the torso
+  const nearSide =
+    leftShoulder.confidence + leftHip.confidence >=
+    rightShoulder.confidence + rightHip.confidence
+      ? {
+          shoulder: leftShoulder,
+          hip: leftHip,
+          knee: leftKnee,
+          ankle: leftAnkle,
+        }
+      : {
+          shoulder: rightShoulder,
+          hip: rightHip,
+          knee: rightKnee,
+          ankle: rightAnkle,
+        };
+  const torsoVisible =
+    state.cameraView !== 'front' &&
+    nearSide.shoulder.confidence > 0.3 &&
+    nearSide.hip.confidence > 0.3;
+  const torsoLean = torsoVisible
+    ? calculateAngleFromVertical(nearSide.shoulder, nearSide.hip)
+    : undefined;
+  const shinAngle =
+    torsoVisible &&
+    nearSide.knee.confidence > 0.3 &&
+    nearSide.ankle.confidence > 0.3
+      ? calculateAngleFromVertical(nearSide.knee, nearSide.ankle)
+      : undefined;
+
+  // Some lean is expected at the bottom - the torso should roughly follow
+  // the shins. Without shins fall back to an absolute limit
+  const MAX_LEAN_OVER_SHIN = 20;
+  const MAX_TORSO_LEAN = 50;
+  const leaningForward =
+    state.currentState === 'down' &&
+    torsoLean !== undefined &&
+    (shinAngle !== undefined
+      ? torsoLean - shinAngle > MAX_LEAN_OVER_SHIN
+      : torsoLean > MAX_TORSO_LEAN);
+
+  // Dynamic knee valgus - knees drifting inside the feet or the hips
+  // while lowered. Widths collapse side-on, so it needs a front view
+  const legsVisible = [
+    leftHip,
+    rightHip,
+    leftKnee,
+    rightKnee,
+    leftAnkle,
+    rightAnkle,
+  ].every((point) => point.confidence > 0.3);
+  const hipsLowered =
+    state.currentState === 'down' ||
+    avgHipY > avgKneeY - 0.12 * legScale;
+  const kneeSeparation = Math.abs(leftKnee.x - rightKnee.x);
+  const ankleSeparation = Math.abs(leftAnkle.x - rightAnkle.x);
+  const hipSeparation = Math.abs(leftHip.x - rightHip.x);
+  const MIN_KNEE_TO_ANKLE_RATIO = 0.8;
+  const kneesCaving =
+    hasReliablePositions &&
+    legsVisible &&
+    hipsLowered &&
+    state.cameraView !== 'side' &&
+    (kneeSeparation < ankleSeparation * MIN_KNEE_TO_ANKLE_RATIO ||
+      kneeSeparation < hipSeparation);
+
+  const formIssues = [
+    ...(kneesTooNarrow ? ['narrow-stance'] : []),
+    ...(kneesCaving ? ['knee-valgus'] : []),
+    ...(leaningForward ? ['forward-lean'] : []),
+  ];
+
+  // Prevent state changes too frequently (debounce) - keypoints are
+  // already smoothed, so this only guards against bouncing at the threshold
+  if (timeSinceLastChange < 400) {
+    return {
+      ...state,
+      trackedMeasure,
+      trackedSideMeasures,
+      torsoLean,
+      formIssues,
+    };
   }
 
-  // Add minimum time between form feedback updates (3 seconds)
-  // Using the lastStateChange as a proxy for lastFeedbackTime to avoid modifying interfaces
+  // Only coach once the user has been in a phase for a while,
+  // cooldowns between messages are up to the feedback scheduler
   const timeSinceLastFeedback = now - state.lastStateChange;
   const shouldUpdateFeedback = timeSinceLastFeedback > 3000;
 
   let newState = state.currentState;
   let newRepCount = state.repCount;
   let formFeedback = '';
+  let feedbackType: FeedbackType | undefined;
 
   // Check for knee alignment issues - only if positions are reliable and it's time to update
-  if (
-    hasReliablePositions &&
-    kneeWidth < 0.08 &&
-    shouldUpdateFeedback
-  ) {
+  if (kneesTooNarrow && shouldUpdateFeedback) {
     formFeedback =
       'Keep your knees aligned with your feet, slightly wider stance';
   }
 
+  if (kneesCaving) {
+    formFeedback = 'Push your knees out over your toes';
+    feedbackType = 'form';
+  }
+
+  if (leaningForward) {
+    formFeedback = "Chest up - you're leaning too far forward";
+    feedbackType = 'form';
+  }
+
   // More tolerant thresholds for squat detection
-  const SQUAT_DOWN_THRESHOLD = 0.02; // Hip is below knee - reduced from 0.05 for shallower squats
-  const SQUAT_UP_THRESHOLD = 0.01; // Hip is back above knee - reduced from 0.02 for easier rep counting
+  const SQUAT_DOWN_THRESHOLD = 0.02 * legScale; // Hip is below knee - reduced from 0.05 for shallower squats
+  const SQUAT_UP_THRESHOLD = 0.01 * legScale; // Hip is back above knee - reduced from 0.02 for easier rep counting
+  const NEAR_KNEE_BAND = 0.01 * legScale;
 
   // Check ankle visibility for depth feedback - more lenient threshold
   const anklesVisible =
@@ -164,17 +288,16 @@ export function processSquatRep(
     return state;
   }
 
-  // Check for state transitions - more tolerant for partial squats
+  // Check for state transitions. The hips have to drop below the knees,
+  // half squats near knee height are never counted
   if (
     state.currentState === 'up' &&
-    (avgHipY > avgKneeY + SQUAT_DOWN_THRESHOLD ||
-      // This alternative condition allows for detecting a squat even with minimal movement
-      (avgHipY > avgKneeY - 0.02 && avgHipY < avgKneeY + 0.01))
+    avgHipY > avgKneeY + SQUAT_DOWN_THRESHOLD
   ) {
     // Hip is significantly below knee level - squat down
     newState = 'down';
     console.log(
-      `Squat: Transitioning to DOWN state, hip-knee diff: ${(avgHipY - avgKneeY).toFixed(3)} (partial squat detection enabled)`,
+      `Squat: Transitioning to DOWN state, hip-knee diff: ${(avgHipY - avgKneeY).toFixed(3)}`,
     );
 
     // Add form feedback for proper depth - only if it's time to update
@@ -218,7 +341,7 @@ export function processSquatRep(
     state.currentState === 'down' &&
     (avgHipY < avgKneeY - SQUAT_UP_THRESHOLD ||
       // This makes it easier to complete a rep - just detecting upward movement
-      avgHipY < avgKneeY + 0.01)
+      avgHipY < avgKneeY + NEAR_KNEE_BAND)
   ) {
     // Hip is back above knee level - complete rep
     newState = 'up';
@@ -227,13 +350,42 @@ export function processSquatRep(
       `Squat rep completed! Count: ${newRepCount} (simplified up detection)`,
     );
 
-    // Provide feedback on the completed rep
-    formFeedback = 'Good! Keep your back straight for the next rep';
+    // Feedback on the completed rep is based on what was actually seen -
+    // the back angle from the side, knee tracking from the front
+    const maxTorsoLean = measureRepMaxTorsoLean(
+      state.repSamples ?? [],
+    );
+    const leanedForward =
+      leaningForward ||
+      !!state.repFormIssues?.includes('forward-lean');
+    if (leanedForward && maxTorsoLean !== null) {
+      formFeedback = `You leaned ${maxTorsoLean}° forward - keep your chest up next rep`;
+      feedbackType = 'form';
+    } else if (leanedForward) {
+      formFeedback = 'Keep your chest up at the bottom next rep';
+      feedbackType = 'form';
+    } else if (
+      kneesCaving ||
+      state.repFormIssues?.includes('knee-valgus')
+    ) {
+      formFeedback = 'Your knees caved in - push them out next rep';
+      feedbackType = 'form';
+    } else if (maxTorsoLean !== null) {
+      formFeedback = 'Good rep! Your chest stayed up';
+    } else if (legsVisible && state.cameraView !== 'side') {
+      formFeedback = 'Good rep! Your knees tracked over your toes';
+    } else {
+      formFeedback = 'Good rep!';
+    }
   } else {
     // In-between states, provide guidance - only if positions are reliable and it's time to update
-    if (hasReliablePositions && shouldUpdateFeedback) {
+    if (
+      hasReliablePositions &&
+      shouldUpdateFeedback &&
+      !formFeedback
+    ) {
       // Much more tolerant threshold for detecting the beginning of a squat
-      const BEGINNING_SQUAT_THRESHOLD = 0.05; // Increased from 0.03
+      const BEGINNING_SQUAT_THRESHOLD = 0.05 * legScale; // Increased from 0.03
 
       // Detect any slight movement toward squat position
       if (
@@ -260,5 +412,10 @@ export function processSquatRep(
     lastStateChange:
       newState !== state.currentState ? now : state.lastStateChange,
     formFeedback: formFeedback || state.formFeedback,
+    trackedMeasure,
+    trackedSideMeasures,
+    torsoLean,
+    formIssues,
+    feedbackType,
   };
 }
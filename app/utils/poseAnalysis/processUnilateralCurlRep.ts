@@ -0,0 +1,170 @@
+import type {
+  Pose,
+  PoseKeypoint,
+  RepCounterState,
+  BodySide,
+  SidePhase,
+  CalibrationBaseline,
+} from '~/types/exercise';
+import {
+  getBendThreshold,
+  getExtensionThreshold,
+} from './calibrationThresholds';
+import { calculateAngle } from './processBicepCurlRep';
+
+/**
+ * Elbow angle for one arm, null when the arm is not reliably tracked
+ */
+function getElbowAngle(
+  shoulder: PoseKeypoint,
+  elbow: PoseKeypoint,
+  wrist: PoseKeypoint,
+): number | null {
+  if (
+    shoulder.confidence <= 0.3 ||
+    elbow.confidence <= 0.3 ||
+    wrist.confidence <= 0.3
+  ) {
+    return null;
+  }
+
+  const angle = calculateAngle(shoulder, elbow, wrist);
+  return isNaN(angle) ? null : angle;
+}
+
+/**
+ * Unilateral bicep curl rep counter logic - each arm runs its own
+ * extended/contracted cycle and is counted separately
+ */
+export function processUnilateralCurlRep(
+  pose: Pose,
+  state: RepCounterState,
+  calibration?: CalibrationBaseline,
+): RepCounterState {
+  // MoveNet keypoint indices
+  const LEFT_SHOULDER = 5;
+  const RIGHT_SHOULDER = 6;
+  const LEFT_ELBOW = 7;
+  const RIGHT_ELBOW = 8;
+  const LEFT_WRIST = 9;
+  const RIGHT_WRIST = 10;
+
+  const angles: Record<BodySide, number | null> = {
+    left: getElbowAngle(
+      pose.keypoints[LEFT_SHOULDER],
+      pose.keypoints[LEFT_ELBOW],
+      pose.keypoints[LEFT_WRIST],
+    ),
+    right: getElbowAngle(
+      pose.keypoints[RIGHT_SHOULDER],
+      pose.keypoints[RIGHT_ELBOW],
+      pose.keypoints[RIGHT_WRIST],
+    ),
+  };
+
+  const now = Date.now();
+  const shouldUpdateFeedback = now - state.lastStateChange > 3000;
+
+  const sideRepCounts = state.sideRepCounts ?? { left: 0, right: 0 };
+  const sidePhases = state.sidePhases ?? {
+    left: { currentState: 'extended', lastStateChange: now },
+    right: { currentState: 'extended', lastStateChange: now },
+  };
+
+  if (angles.left === null && angles.right === null) {
+    if (shouldUpdateFeedback) {
+      return {
+        ...state,
+        sideRepCounts,
+        sidePhases,
+        formFeedback: 'Position yourself so your arms are visible',
+        feedbackType: 'visibility',
+      };
+    }
+    return state;
+  }
+
+  // Same thresholds as the two-arm curl
+  const CONTRACTED_ANGLE = getBendThreshold(
+    80,
+    calibration?.referenceMinElbowAngle,
+  );
+  const EXTENDED_ANGLE = getExtensionThreshold(140, calibration);
+
+  const newSideRepCounts = { ...sideRepCounts };
+  const newSidePhases = { ...sidePhases };
+  let completedSide: BodySide | null = null;
+  let changedSide: BodySide | null = null;
+
+  for (const side of ['left', 'right'] as const) {
+    const angle = angles[side];
+    const phase = sidePhases[side];
+
+    // Debounce each arm on its own so one arm can't block the other
+    if (angle === null || now - phase.lastStateChange < 400) {
+      continue;
+    }
+
+    let nextPhase: SidePhase | null = null;
+    if (
+      phase.currentState === 'extended' &&
+      angle < CONTRACTED_ANGLE
+    ) {
+      nextPhase = {
+        currentState: 'contracted',
+        lastStateChange: now,
+      };
+    } else if (
+      phase.currentState === 'contracted' &&
+      angle > EXTENDED_ANGLE
+    ) {
+      // Arm is extended - complete rep for this side
+      nextPhase = { currentState: 'extended', lastStateChange: now };
+      newSideRepCounts[side] = sideRepCounts[side] + 1;
+      completedSide = side;
+    }
+
+    if (nextPhase) {
+      newSidePhases[side] = nextPhase;
+      changedSide = side;
+    }
+  }
+
+  let formFeedback = '';
+
+  // Warn when one arm lags a few reps behind the other
+  const LAGGING_REP_DIFFERENCE = 3;
+  const repDifference =
+    newSideRepCounts.left - newSideRepCounts.right;
+  if (
+    Math.abs(repDifference) >= LAGGING_REP_DIFFERENCE &&
+    (shouldUpdateFeedback || completedSide)
+  ) {
+    const laggingSide = repDifference > 0 ? 'Right' : 'Left';
+    formFeedback = `${laggingSide} arm is ${Math.abs(repDifference)} reps behind - keep both sides even`;
+  } else if (completedSide) {
+    formFeedback = `Good ${completedSide} rep! Control the downward movement`;
+  }
+
+  // The working arm is the more bent one, so the rep samples follow it
+  // through alternating reps
+  const visibleAngles = [angles.left, angles.right].filter(
+    (angle): angle is number => angle !== null,
+  );
+  const trackedMeasure = Math.min(...visibleAngles);
+
+  // Overall phase follows whichever arm moved last
+  const currentState = changedSide
+    ? newSidePhases[changedSide].currentState
+    : state.currentState;
+
+  return {
+    currentState,
+    repCount: newSideRepCounts.left + newSideRepCounts.right,
+    lastStateChange: changedSide ? now : state.lastStateChange,
+    formFeedback: formFeedback || state.formFeedback,
+    sideRepCounts: newSideRepCounts,
+    sidePhases: newSidePhases,
+    trackedMeasure,
+  };
+}
@@ -0,0 +1,103 @@
+import type { Pose, RepCounterState } from '~/types/exercise';
+import {
+  calculateAngle,
+  calculateAngleFromVertical,
+} from './processBicepCurlRep';
+import { updateHoldState } from './updateHoldState';
+
+/**
+ * Wall sit hold logic, expects a side-on camera view
+ */
+export function processWallSitHold(
+  pose: Pose,
+  state: RepCounterState,
+): RepCounterState {
+  // MoveNet keypoint indices
+  const LEFT_SHOULDER = 5;
+  const RIGHT_SHOULDER = 6;
+  const LEFT_HIP = 11;
+  const RIGHT_HIP = 12;
+  const LEFT_KNEE = 13;
+  const RIGHT_KNEE = 14;
+  const LEFT_ANKLE = 15;
+  const RIGHT_ANKLE = 16;
+
+  // From the side, use whichever leg faces the camera
+  const leftConfidence =
+    pose.keypoints[LEFT_HIP].confidence +
+    pose.keypoints[LEFT_KNEE].confidence +
+    pose.keypoints[LEFT_ANKLE].confidence;
+  const rightConfidence =
+    pose.keypoints[RIGHT_HIP].confidence +
+    pose.keypoints[RIGHT_KNEE].confidence +
+    pose.keypoints[RIGHT_ANKLE].confidence;
+  const useLeft = leftConfidence >= rightConfidence;
+
+  const shoulder =
+    pose.keypoints[useLeft ? LEFT_SHOULDER : RIGHT_SHOULDER];
+  const hip = pose.keypoints[useLeft ? LEFT_HIP : RIGHT_HIP];
+  const knee = pose.keypoints[useLeft ? LEFT_KNEE : RIGHT_KNEE];
+  const ankle = pose.keypoints[useLeft ? LEFT_ANKLE : RIGHT_ANKLE];
+
+  const now = Date.now();
+  const shouldUpdateFeedback = now - state.lastStateChange > 3000;
+
+  if (
+    hip.confidence <= 0.3 ||
+    knee.confidence <= 0.3 ||
+    ankle.confidence <= 0.3
+  ) {
+    return updateHoldState(
+      state,
+      false,
+      shouldUpdateFeedback
+        ? 'Turn sideways so your hips, knees and ankles are visible'
+        : '',
+      'visibility',
+    );
+  }
+
+  const kneeAngle = calculateAngle(hip, knee, ankle);
+  if (isNaN(kneeAngle)) {
+    return state;
+  }
+
+  // Thighs parallel to the floor puts the knee at roughly 90°
+  const MIN_KNEE_ANGLE = 70;
+  const MAX_KNEE_ANGLE = 115;
+  const isSeated = kneeAngle < 150;
+  const isAtDepth =
+    kneeAngle >= MIN_KNEE_ANGLE && kneeAngle <= MAX_KNEE_ANGLE;
+
+  // Back should stay flat against the wall
+  const torsoLean =
+    shoulder.confidence > 0.3
+      ? calculateAngleFromVertical(shoulder, hip)
+      : 0;
+  const isUpright = torsoLean < 20;
+
+  const isHolding = isAtDepth && isUpright;
+
+  let formFeedback = '';
+
+  if (!isSeated) {
+    if (shouldUpdateFeedback) {
+      formFeedback =
+        'Lean against the wall and slide down until your thighs are parallel';
+    }
+  } else if (kneeAngle > MAX_KNEE_ANGLE) {
+    formFeedback =
+      'Hips rising - slide down until thighs are parallel';
+  } else if (kneeAngle < MIN_KNEE_ANGLE) {
+    formFeedback =
+      'Too low - come up until your knees are at 90 degrees';
+  } else if (!isUpright) {
+    formFeedback = 'Keep your back flat against the wall';
+  } else if (state.currentState !== 'holding') {
+    formFeedback = 'Good position! Hold it there';
+  } else if (shouldUpdateFeedback) {
+    formFeedback = 'Keep your weight in your heels';
+  }
+
+  return updateHoldState(state, isHolding, formFeedback);
+}
@@ -0,0 +1,48 @@
+import type {
+  MeasureSample,
+  RangeOfMotionSettings,
+  RepRangeOfMotion,
+} from '~/types/exercise';
+
+/**
+ * Minimum and maximum of the tracked measure across one rep
+ */
+export function measureRepRangeOfMotion(
+  samples: MeasureSample[],
+): RepRangeOfMotion | null {
+  if (samples.length === 0) {
+    return null;
+  }
+
+  const values = samples.map((sample) => sample.value);
+  return { min: Math.min(...values), max: Math.max(...values) };
+}
+
+/**
+ * How far a value is from the start towards full range, 0 to 1
+ */
+export function calculateRangeOfMotionProgress(
+  value: number,
+  settings: RangeOfMotionSettings,
+): number {
+  const progress =
+    (value - settings.start) / (settings.target - settings.start);
+  return Math.min(Math.max(progress, 0), 1);
+}
+
+/**
+ * Share of the target range a rep reached, as a whole percentage
+ */
+export function getRepRangeOfMotionPercent(
+  rangeOfMotion: RepRangeOfMotion,
+  settings: RangeOfMotionSettings,
+): number {
+  // Full range sits at whichever extreme the target lies towards
+  const reached =
+    settings.target > settings.start
+      ? rangeOfMotion.max
+      : rangeOfMotion.min;
+  const progress =
+    (reached - settings.start) / (settings.target - settings.start);
+  return Math.round(Math.max(progress, 0) * 100);
+}
@@ -0,0 +1,102 @@
+import type {
+  Exercise,
+  MeasureSample,
+  RangeOfMotionSettings,
+  RepRangeOfMotion,
+  RepStrictness,
+} from '~/types/exercise';
+import { getRepRangeOfMotionPercent } from './rangeOfMotion';
+
+// Reps scoring below this are not counted at each strictness level
+export const STRICTNESS_MIN_QUALITY: Record<RepStrictness, number> = {
+  lenient: 0,
+  standard: 70,
+  strict: 85,
+};
+
+/**
+ * Whether reps are scored, and so whether strictness has any effect.
+ * Reps are judged on the range of the tracked measure against the
+ * exercise's range of motion target
+ */
+export function isRepQualityScored(exercise: Exercise): boolean {
+  return (
+    (exercise.trackingMode ?? 'reps') === 'reps' &&
+    exercise.rangeOfMotion !== undefined
+  );
+}
+
+// Depth matters most, a rep that never reaches range is not a rep
+const DEPTH_WEIGHT = 0.5;
+const SYMMETRY_WEIGHT = 0.2;
+const FORM_WEIGHT = 0.3;
+
+// Each distinct form issue costs a third of the form score
+const FORM_ISSUE_PENALTY = 34;
+
+export interface RepQuality {
+  depth: number;
+  symmetry: number;
+  form: number;
+  quality: number;
+}
+
+/**
+ * Average left/right gap as a share of the rep's range, 100 when perfectly even
+ */
+function scoreSymmetry(
+  samples: MeasureSample[],
+  rangeOfMotion: RepRangeOfMotion | null,
+): number {
+  const sideSamples = samples.filter((sample) => sample.sides);
+  const span = rangeOfMotion
+    ? rangeOfMotion.max - rangeOfMotion.min
+    : 0;
+  if (sideSamples.length === 0 || span <= 0) {
+    return 100;
+  }
+
+  const averageGap =
+    sideSamples.reduce(
+      (sum, sample) =>
+        sum + Math.abs(sample.sides!.left - sample.sides!.right),
+      0,
+    ) / sideSamples.length;
+
+  return Math.round(Math.max(1 - averageGap / span, 0) * 100);
+}
+
+/**
+ * Score one rep 0-100 from depth, left/right symmetry and form issues
+ */
+export function scoreRepQuality(
+  samples: MeasureSample[],
+  rangeOfMotion: RepRangeOfMotion | null,
+  formIssues: string[],
+  settings?: RangeOfMotionSettings,
+): RepQuality {
+  // Without a target range there is nothing to judge depth against
+  const depth =
+    settings && rangeOfMotion
+      ? Math.min(
+          getRepRangeOfMotionPercent(rangeOfMotion, settings),
+          100,
+        )
+      : 100;
+  const symmetry = scoreSymmetry(samples, rangeOfMotion);
+  const form = Math.max(
+    100 - formIssues.length * FORM_ISSUE_PENALTY,
+    0,
+  );
+
+  return {
+    depth,
+    symmetry,
+    form,
+    quality: Math.round(
+      depth * DEPTH_WEIGHT +
+        symmetry * SYMMETRY_WEIGHT +
+        form * FORM_WEIGHT,
+    ),
+  };
+}
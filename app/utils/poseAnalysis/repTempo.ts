@@ -0,0 +1,105 @@
+import type {
+  MeasureSample,
+  RepTempo,
+  TempoSettings,
+} from '~/types/exercise';
+
+// Share of the rep's range treated as "still at the top/bottom"
+const TURNAROUND_BAND = 0.08;
+
+/**
+ * Split one rep's measure samples into eccentric, pause and concentric time
+ */
+export function measureRepTempo(
+  samples: MeasureSample[],
+  settings: TempoSettings,
+): RepTempo | null {
+  if (samples.length < 3) {
+    return null;
+  }
+
+  const sign = settings.turnaround === 'max' ? 1 : -1;
+  const values = samples.map((sample) => sample.value * sign);
+
+  // Turnaround is the extreme, start is the opposite extreme before it
+  let turnIndex = 0;
+  values.forEach((value, index) => {
+    if (value > values[turnIndex]) turnIndex = index;
+  });
+
+  let startIndex = 0;
+  for (let i = 0; i <= turnIndex; i++) {
+    if (values[i] < values[startIndex]) startIndex = i;
+  }
+
+  const range = values[turnIndex] - values[startIndex];
+  if (range <= 0) {
+    return null;
+  }
+
+  const band = range * TURNAROUND_BAND;
+  const isAtStart = (i: number) =>
+    values[i] <= values[startIndex] + band;
+  const isAtTurnaround = (i: number) =>
+    values[i] >= values[turnIndex] - band;
+
+  // Movement begins on the last frame still at the start position
+  let leaveStartIndex = startIndex;
+  for (let i = startIndex; i < turnIndex; i++) {
+    if (isAtStart(i)) leaveStartIndex = i;
+  }
+
+  let enterTurnIndex = turnIndex;
+  for (let i = turnIndex; i > leaveStartIndex; i--) {
+    if (!isAtTurnaround(i)) break;
+    enterTurnIndex = i;
+  }
+
+  let exitTurnIndex = turnIndex;
+  for (let i = turnIndex; i < values.length; i++) {
+    if (!isAtTurnaround(i)) break;
+    exitTurnIndex = i;
+  }
+
+  const time = (i: number) => samples[i].time;
+  const firstMs = time(enterTurnIndex) - time(leaveStartIndex);
+  const pauseMs = time(exitTurnIndex) - time(enterTurnIndex);
+  const secondMs = time(samples.length - 1) - time(exitTurnIndex);
+
+  return settings.eccentricPhase === 'first'
+    ? { eccentricMs: firstMs, pauseMs, concentricMs: secondMs }
+    : { eccentricMs: secondMs, pauseMs, concentricMs: firstMs };
+}
+
+/**
+ * Average tempo across reps, null if no rep had a measurable tempo
+ */
+export function calculateAverageTempo(
+  tempos: (RepTempo | null)[],
+): RepTempo | null {
+  const measured = tempos.filter(
+    (tempo): tempo is RepTempo => tempo !== null,
+  );
+  if (measured.length === 0) {
+    return null;
+  }
+
+  const average = (key: keyof RepTempo) =>
+    measured.reduce((sum, tempo) => sum + tempo[key], 0) /
+    measured.length;
+
+  return {
+    eccentricMs: average('eccentricMs'),
+    pauseMs: average('pauseMs'),
+    concentricMs: average('concentricMs'),
+  };
+}
+
+/**
+ * Format a tempo as seconds per phase, e.g. "3.0-1.0-1.2"
+ */
+export function formatTempo(tempo: RepTempo): string {
+  return [tempo.eccentricMs, tempo.pauseMs, tempo.concentricMs]
+    .map((ms) => (ms / 1000).toFixed(1))
+    .join('-');
+}
@@ -0,0 +1,251 @@
+import type {
+  BodySide,
+  MeasureSample,
+  RangeOfMotionSettings,
+  RepRangeOfMotion,
+  RepRecord,
+  RepSymmetry,
+  TempoSettings,
+} from '~/types/exercise';
+import { getRepRangeOfMotionPercent } from './rangeOfMotion';
+
+// A side moving this much less than the other (% of the larger range) lags
+const RANGE_LAG_PERCENT = 15;
+// A side this many percentage points short of the other's depth lags
+const DEPTH_LAG_PERCENT = 15;
+// A side reaching the turnaround this much later than the other lags
+const TIMING_LAG_MS = 250;
+
+// Reps in a row one side has to lag before it is called out
+export const LAGGING_REP_STREAK = 3;
+
+export type SymmetryLagReason = 'range' | 'timing';
+
+export interface SymmetryLag {
+  side: BodySide;
+  reason: SymmetryLagReason;
+}
+
+export interface SideSymmetrySummary {
+  averageRange: number;
+  // Average share of the target range, null without a target
+  averageDepth: number | null;
+  laggingReps: number;
+}
+
+export interface SymmetrySummary {
+  left: SideSymmetrySummary;
+  right: SideSymmetrySummary;
+  // Average range difference between the sides, 0 when perfectly even
+  asymmetryPercent: number;
+  averageTurnaroundOffsetMs: number | null;
+  // Side that lagged in at least half the measured reps
+  laggingSide: BodySide | null;
+  measuredReps: number;
+}
+
+function getSpan(rangeOfMotion: RepRangeOfMotion): number {
+  return rangeOfMotion.max - rangeOfMotion.min;
+}
+
+function average(values: number[]): number {
+  return (
+    values.reduce((sum, value) => sum + value, 0) / values.length
+  );
+}
+
+/**
+ * Range of each side across one rep and how far apart in time they
+ * reached the turnaround, null without samples from both sides
+ */
+export function measureRepSymmetry(
+  samples: MeasureSample[],
+  tempo?: TempoSettings,
+): RepSymmetry | null {
+  const sideSamples = samples.filter((sample) => sample.sides);
+  if (sideSamples.length < 2) {
+    return null;
+  }
+
+  const leftValues = sideSamples.map((sample) => sample.sides!.left);
+  const rightValues = sideSamples.map(
+    (sample) => sample.sides!.right,
+  );
+
+  let turnaroundOffsetMs: number | null = null;
+  if (tempo) {
+    const pick = tempo.turnaround === 'max' ? Math.max : Math.min;
+    const turnaroundTime = (values: number[]) =>
+      sideSamples[values.indexOf(pick(...values))].time;
+    turnaroundOffsetMs =
+      turnaroundTime(leftValues) - turnaroundTime(rightValues);
+  }
+
+  return {
+    left: {
+      min: Math.min(...leftValues),
+      max: Math.max(...leftValues),
+    },
+    right: {
+      min: Math.min(...rightValues),
+      max: Math.max(...rightValues),
+    },
+    turnaroundOffsetMs,
+  };
+}
+
+/**
+ * Range difference between the sides as a share of the larger range
+ */
+export function getRepAsymmetryPercent(
+  symmetry: RepSymmetry,
+): number {
+  const leftSpan = getSpan(symmetry.left);
+  const rightSpan = getSpan(symmetry.right);
+  const largerSpan = Math.max(leftSpan, rightSpan);
+  if (largerSpan <= 0) {
+    return 0;
+  }
+  return Math.round(
+    (Math.abs(leftSpan - rightSpan) / largerSpan) * 100,
+  );
+}
+
+/**
+ * Which side fell behind on one rep and why, null when both kept up.
+ * Moving less or not as deep matters more than arriving late
+ */
+export function getRepLag(
+  symmetry: RepSymmetry,
+  settings?: RangeOfMotionSettings,
+): SymmetryLag | null {
+  const shorterSide: BodySide =
+    getSpan(symmetry.left) < getSpan(symmetry.right)
+      ? 'left'
+      : 'right';
+  if (getRepAsymmetryPercent(symmetry) > RANGE_LAG_PERCENT) {
+    return { side: shorterSide, reason: 'range' };
+  }
+
+  if (settings) {
+    const leftDepth = getRepRangeOfMotionPercent(
+      symmetry.left,
+      settings,
+    );
+    const rightDepth = getRepRangeOfMotionPercent(
+      symmetry.right,
+      settings,
+    );
+    if (Math.abs(leftDepth - rightDepth) > DEPTH_LAG_PERCENT) {
+      return {
+        side: leftDepth < rightDepth ? 'left' : 'right',
+        reason: 'range',
+      };
+    }
+  }
+
+  const offset = symmetry.turnaroundOffsetMs;
+  if (offset !== null && Math.abs(offset) > TIMING_LAG_MS) {
+    return { side: offset > 0 ? 'left' : 'right', reason: 'timing' };
+  }
+
+  return null;
+}
+
+/**
+ * The lag shared by every one of the last few reps, null unless the
+ * same side lagged for the whole streak
+ */
+export function findConsistentLag(
+  repHistory: RepRecord[],
+  settings?: RangeOfMotionSettings,
+): SymmetryLag | null {
+  const recentReps = repHistory.slice(-LAGGING_REP_STREAK);
+  if (recentReps.length < LAGGING_REP_STREAK) {
+    return null;
+  }
+
+  const lags = recentReps.map((rep) =>
+    rep.symmetry ? getRepLag(rep.symmetry, settings) : null,
+  );
+  const [first] = lags;
+  if (!first || lags.some((lag) => lag?.side !== first.side)) {
+    return null;
+  }
+
+  // Report the range reason if any rep in the streak fell short on range
+  return lags.some((lag) => lag?.reason === 'range')
+    ? { side: first.side, reason: 'range' }
+    : first;
+}
+
+/**
+ * Coaching cue for a side that keeps lagging behind the other
+ */
+export function getLagFeedback(lag: SymmetryLag): string {
+  const otherSide = lag.side === 'left' ? 'right' : 'left';
+  return lag.reason === 'range'
+    ? `Your ${lag.side} side isn't going as far - match your ${otherSide}`
+    : `Your ${lag.side} side is trailing - move both sides together`;
+}
+
+/**
+ * Left/right comparison across a set, null when no rep tracked both sides
+ */
+export function calculateSymmetrySummary(
+  repHistory: RepRecord[],
+  settings?: RangeOfMotionSettings,
+): SymmetrySummary | null {
+  const measured = repHistory.flatMap((rep) =>
+    rep.symmetry ? [rep.symmetry] : [],
+  );
+  if (measured.length === 0) {
+    return null;
+  }
+
+  const lags = measured.map((symmetry) =>
+    getRepLag(symmetry, settings),
+  );
+  const summarizeSide = (side: BodySide): SideSymmetrySummary => ({
+    averageRange: average(
+      measured.map((symmetry) => getSpan(symmetry[side])),
+    ),
+    averageDepth: settings
+      ? Math.round(
+          average(
+            measured.map((symmetry) =>
+              getRepRangeOfMotionPercent(symmetry[side], settings),
+            ),
+          ),
+        )
+      : null,
+    laggingReps: lags.filter((lag) => lag?.side === side).length,
+  });
+
+  const left = summarizeSide('left');
+  const right = summarizeSide('right');
+  const offsets = measured.flatMap((symmetry) =>
+    symmetry.turnaroundOffsetMs !== null
+      ? [symmetry.turnaroundOffsetMs]
+      : [],
+  );
+
+  const mostLagging =
+    left.laggingReps >= right.laggingReps ? 'left' : 'right';
+  const laggingReps = Math.max(left.laggingReps, right.laggingReps);
+
+  return {
+    left,
+    right,
+    asymmetryPercent: Math.round(
+      average(measured.map(getRepAsymmetryPercent)),
+    ),
+    averageTurnaroundOffsetMs:
+      offsets.length > 0 ? Math.round(average(offsets)) : null,
+    laggingSide:
+      laggingReps > 0 && laggingReps >= measured.length / 2
+        ? mostLagging
+        : null,
+    measuredReps: measured.length,
+  };
+}
@@ -0,0 +1,14 @@
+import type { MeasureSample } from '~/types/exercise';
+
+/**
+ * Steepest torso lean across one rep in degrees, null when the torso
+ * was never measured
+ */
+export function measureRepMaxTorsoLean(
+  samples: MeasureSample[],
+): number | null {
+  const leans = samples.flatMap((sample) =>
+    sample.torsoLean !== undefined ? [sample.torsoLean] : [],
+  );
+  return leans.length > 0 ? Math.round(Math.max(...leans)) : null;
+}
@@ -0,0 +1,41 @@
+import type { RepCounterState } from '~/types/exercise';
+import type { FeedbackType } from '~/types/feedback';
+
+// Longer gaps mean frames were dropped (pose lost, tab hidden) and don't count
+const MAX_FRAME_GAP_MS = 500;
+
+/**
+ * Shared hold timer - accumulates time only while the position is held
+ */
+export function updateHoldState(
+  state: RepCounterState,
+  isHolding: boolean,
+  formFeedback: string,
+  feedbackType?: FeedbackType,
+): RepCounterState {
+  const now = Date.now();
+  const newState = isHolding ? 'holding' : 'resting';
+  const frameGap = state.lastFrameTime
+    ? now - state.lastFrameTime
+    : 0;
+
+  // Only frames where the form was valid on both ends add to the clock
+  const holdTime =
+    (state.holdTime ?? 0) +
+    (isHolding &&
+    state.currentState === 'holding' &&
+    frameGap <= MAX_FRAME_GAP_MS
+      ? frameGap
+      : 0);
+
+  return {
+    ...state,
+    currentState: newState,
+    holdTime,
+    lastFrameTime: now,
+    lastStateChange:
+      newState !== state.currentState ? now : state.lastStateChange,
+    formFeedback: formFeedback || state.formFeedback,
+    feedbackType: formFeedback ? feedbackType : undefined,
+  };
+}
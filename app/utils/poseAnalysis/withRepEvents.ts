@@ -0,0 +1,106 @@
+import type {
+  BodySide,
+  RepCounterState,
+  RepEvent,
+} from '~/types/exercise';
+import type { RepAnalyzer } from './getRepAnalyzer';
+
+/**
+ * Events describing what changed between two consecutive rep states
+ */
+export function detectRepEvents(
+  previous: RepCounterState,
+  next: RepCounterState,
+  timestamp: number,
+): RepEvent[] {
+  const events: RepEvent[] = [];
+
+  if (next.currentState !== previous.currentState) {
+    events.push({
+      type: 'phase-changed',
+      timestamp,
+      from: previous.currentState,
+      to: next.currentState,
+    });
+  }
+
+  if (next.cameraView && next.cameraView !== previous.cameraView) {
+    events.push({
+      type: 'view-changed',
+      timestamp,
+      view: next.cameraView,
+    });
+  }
+
+  const previousIssues = previous.formIssues ?? [];
+  for (const issue of next.formIssues ?? []) {
+    if (!previousIssues.includes(issue)) {
+      events.push({ type: 'form-issue-detected', timestamp, issue });
+    }
+  }
+
+  const history = next.repHistory ?? [];
+  const record =
+    history.length > (previous.repHistory ?? []).length
+      ? history[history.length - 1]
+      : undefined;
+
+  if (record && !record.counted) {
+    events.push({ type: 'rep-rejected', timestamp, record });
+  } else if (next.repCount > previous.repCount) {
+    const side = (['left', 'right'] as BodySide[]).find(
+      (candidate) =>
+        (next.sideRepCounts?.[candidate] ?? 0) >
+        (previous.sideRepCounts?.[candidate] ?? 0),
+    );
+    events.push({
+      type: 'rep-completed',
+      timestamp,
+      repCount: next.repCount,
+      side,
+      record,
+    });
+  }
+
+  if (
+    next.formFeedback &&
+    next.formFeedback !== previous.formFeedback
+  ) {
+    // Untyped feedback on a clean completing frame is the "good rep" message
+    const completedRep = next.repCount > previous.repCount;
+    events.push({
+      type: 'feedback-changed',
+      timestamp,
+      message: next.formFeedback,
+      feedbackType:
+        next.feedbackType ??
+        (completedRep && !next.formIssues?.length
+          ? 'encouragement'
+          : 'form'),
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Wrap an analyzer so every state it returns carries the events of that frame
+ */
+export function withRepEvents(analyzer: RepAnalyzer): RepAnalyzer {
+  return (pose, state) => {
+    const nextState = analyzer(pose, state);
+    const events = detectRepEvents(state, nextState, Date.now());
+
+    // Nothing happened, keep the same state so React can skip the render
+    if (
+      events.length === 0 &&
+      nextState === state &&
+      !state.events?.length
+    ) {
+      return state;
+    }
+
+    // Feedback type only describes the frame that produced it
+    return { ...nextState, feedbackType: undefined, events };
+  };
+}
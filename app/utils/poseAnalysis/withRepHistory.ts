@@ -0,0 +1,145 @@
+import type {
+  Exercise,
+  RepRecord,
+  RepStrictness,
+} from '~/types/exercise';
+import type { RepAnalyzer } from './getRepAnalyzer';
+import { measureRepRangeOfMotion } from './rangeOfMotion';
+import {
+  STRICTNESS_MIN_QUALITY,
+  scoreRepQuality,
+} from './repQuality';
+import { measureRepTempo } from './repTempo';
+import { measureRepMaxTorsoLean } from './torsoLean';
+import {
+  findConsistentLag,
+  getLagFeedback,
+  measureRepSymmetry,
+} from './symmetry';
+
+// Roughly 20 seconds at 30fps - enough for the slowest tempo rep
+const MAX_REP_SAMPLES = 600;
+
+/**
+ * Wrap an analyzer so every completed rep is scored and recorded with
+ * structured per-rep data, dropping reps below the strictness level
+ */
+export function withRepHistory(
+  analyzer: RepAnalyzer,
+  exercise: Exercise,
+  strictness: RepStrictness = 'standard',
+): RepAnalyzer {
+  return (pose, state) => {
+    const nextState = analyzer(pose, state);
+    if (nextState === state) {
+      return state;
+    }
+
+    // Some analyzers build a fresh state, so carry the history over
+    const repHistory = state.repHistory ?? [];
+    const repFormIssues = [
+      ...new Set([
+        ...(state.repFormIssues ?? []),
+        ...(nextState.formIssues ?? []),
+      ]),
+    ];
+
+    // Frames without a tracked measure add no samples
+    if (nextState.trackedMeasure === undefined) {
+      return {
+        ...nextState,
+        repSamples: state.repSamples,
+        repFormIssues,
+        repHistory,
+      };
+    }
+
+    const now = Date.now();
+    const repSamples = [
+      ...(state.repSamples ?? []),
+      {
+        time: now,
+        value: nextState.trackedMeasure,
+        sides: nextState.trackedSideMeasures,
+        torsoLean: nextState.torsoLean,
+      },
+    ].slice(-MAX_REP_SAMPLES);
+
+    if (nextState.repCount <= state.repCount) {
+      return { ...nextState, repSamples, repFormIssues, repHistory };
+    }
+
+    const tempo = exercise.tempo
+      ? measureRepTempo(repSamples, exercise.tempo)
+      : null;
+    const rangeOfMotion = measureRepRangeOfMotion(repSamples);
+    const symmetry = measureRepSymmetry(repSamples, exercise.tempo);
+    const { depth, quality } = scoreRepQuality(
+      repSamples,
+      rangeOfMotion,
+      repFormIssues,
+      exercise.rangeOfMotion,
+    );
+    const counted = quality >= STRICTNESS_MIN_QUALITY[strictness];
+
+    const record: RepRecord = {
+      // Rejected reps still get a number so attempts stay in order
+      repNumber: repHistory.length + 1,
+      completedAt: now,
+      tempo,
+      rangeOfMotion,
+      formIssues: repFormIssues,
+      symmetry,
+      maxTorsoLean: measureRepMaxTorsoLean(repSamples),
+      cheated: exercise.cheatIssues?.some((issue) =>
+        repFormIssues.includes(issue),
+      ),
+      quality,
+      counted,
+    };
+
+    const nextRepHistory = [...repHistory, record];
+    const lag = symmetry
+      ? findConsistentLag(nextRepHistory, exercise.rangeOfMotion)
+      : null;
+
+    const rejectedCounts = {
+      repCount: state.repCount,
+      sideRepCounts: state.sideRepCounts,
+    };
+
+    let formFeedback = nextState.formFeedback;
+    let feedbackType = nextState.feedbackType;
+    if (!counted) {
+      feedbackType = 'form';
+      formFeedback =
+        depth < 80
+          ? 'Rep not counted - go deeper'
+          : 'Rep not counted - watch your form';
+    } else if (
+      tempo &&
+      exercise.tempo &&
+      tempo.eccentricMs < exercise.tempo.minEccentricMs
+    ) {
+      const targetSeconds = Math.round(
+        exercise.tempo.minEccentricMs / 1000,
+      );
+      feedbackType = 'form';
+      formFeedback = `Too fast on the way down - take ${targetSeconds} seconds to lower`;
+    } else if (lag) {
+      feedbackType = 'form';
+      formFeedback = getLagFeedback(lag);
+    }
+
+    return {
+      ...nextState,
+      ...(!counted && rejectedCounts),
+      formFeedback,
+      feedbackType,
+      // The completing frame is also the start of the next rep
+      repSamples: repSamples.slice(-1),
+      repFormIssues: [],
+      repHistory: nextRepHistory,
+    };
+  };
+}
@@ -0,0 +1,143 @@
+import type { Pose, PoseKeypoint } from '~/types/exercise';
+import type {
+  KeypointFilterState,
+  PoseFilterSettings,
+} from '~/types/poseFilter';
+
+export const DEFAULT_POSE_FILTER_SETTINGS: PoseFilterSettings = {
+  filter: 'one-euro',
+  minCutoff: 1.5,
+  beta: 4,
+  derivativeCutoff: 1,
+  alpha: 0.5,
+  minConfidence: 0.3,
+  holdMs: 300,
+  // A fast jumping jack moves the wrists ~3 frame heights per second
+  maxVelocity: 6,
+};
+
+/**
+ * Low-pass weight for a cutoff frequency at the given frame interval
+ */
+function smoothingFactor(cutoff: number, dtSeconds: number): number {
+  const tau = 1 / (2 * Math.PI * cutoff);
+  return 1 / (1 + tau / dtSeconds);
+}
+
+function startKeypoint(
+  keypoint: PoseKeypoint,
+  now: number,
+): KeypointFilterState {
+  return {
+    x: keypoint.x,
+    y: keypoint.y,
+    dx: 0,
+    dy: 0,
+    confidence: keypoint.confidence,
+    time: now,
+    lastGoodTime: now,
+  };
+}
+
+/**
+ * Filter one keypoint against its previous state
+ */
+export function filterKeypoint(
+  keypoint: PoseKeypoint,
+  previous: KeypointFilterState | undefined,
+  settings: PoseFilterSettings,
+  now: number,
+): KeypointFilterState {
+  if (!previous || now - previous.time > settings.holdMs) {
+    return startKeypoint(keypoint, now);
+  }
+
+  const dtSeconds = Math.max((now - previous.time) / 1000, 0.001);
+  const withinHold = now - previous.lastGoodTime <= settings.holdMs;
+
+  // Unreliable point - keep the last good value for a short while
+  if (keypoint.confidence < settings.minConfidence) {
+    return withinHold
+      ? { ...previous, time: now }
+      : startKeypoint(keypoint, now);
+  }
+
+  // A jump no body part can make in one frame is a detection glitch,
+  // unless it persists past the hold time and is real movement
+  const velocity =
+    Math.hypot(keypoint.x - previous.x, keypoint.y - previous.y) /
+    dtSeconds;
+  if (velocity > settings.maxVelocity) {
+    return withinHold
+      ? { ...previous, time: now }
+      : startKeypoint(keypoint, now);
+  }
+
+  if (settings.filter === 'none') {
+    return startKeypoint(keypoint, now);
+  }
+
+  if (settings.filter === 'exponential') {
+    return {
+      ...previous,
+      x: previous.x + settings.alpha * (keypoint.x - previous.x),
+      y: previous.y + settings.alpha * (keypoint.y - previous.y),
+      confidence: keypoint.confidence,
+      time: now,
+      lastGoodTime: now,
+    };
+  }
+
+  // One-Euro - heavy smoothing when still, light when moving fast
+  const derivativeFactor = smoothingFactor(
+    settings.derivativeCutoff,
+    dtSeconds,
+  );
+  const dx =
+    previous.dx +
+    derivativeFactor *
+      ((keypoint.x - previous.x) / dtSeconds - previous.dx);
+  const dy =
+    previous.dy +
+    derivativeFactor *
+      ((keypoint.y - previous.y) / dtSeconds - previous.dy);
+  const cutoff =
+    settings.minCutoff + settings.beta * Math.hypot(dx, dy);
+  const factor = smoothingFactor(cutoff, dtSeconds);
+
+  return {
+    x: previous.x + factor * (keypoint.x - previous.x),
+    y: previous.y + factor * (keypoint.y - previous.y),
+    dx,
+    dy,
+    confidence: keypoint.confidence,
+    time: now,
+    lastGoodTime: now,
+  };
+}
+
+/**
+ * Filter every keypoint of a pose, returning the smoothed pose and new state
+ */
+export function filterPose(
+  pose: Pose,
+  previous: KeypointFilterState[] | undefined,
+  settings: PoseFilterSettings,
+  now: number,
+): { pose: Pose; state: KeypointFilterState[] } {
+  const state = pose.keypoints.map((keypoint, index) =>
+    filterKeypoint(keypoint, previous?.[index], settings, now),
+  );
+
+  return {
+    pose: {
+      ...pose,
+      keypoints: state.map(({ x, y, confidence }) => ({
+        x,
+        y,
+        confidence,
+      })),
+    },
+    state,
+  };
+}
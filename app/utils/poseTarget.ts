@@ -0,0 +1,212 @@
+import type { Pose } from '~/types/exercise';
+import { detectGesture } from '~/utils/gestureControls';
+
+export interface PoseTargetState {
+  // Track ID of the person being coached
+  targetId: number | null;
+  lastSeenAt: number;
+  // Where the target was last seen, to recognise them under a new track ID
+  lastBounds: PoseBounds | null;
+  // Set once the workout starts, bystanders can't take over after that
+  isLocked: boolean;
+}
+
+export interface PoseTargetSplit {
+  target: Pose | null;
+  bystanders: Pose[];
+}
+
+// The tracker can drop a person for a moment, e.g. behind a bystander,
+// so the target is only replaced after being gone this long
+const REACQUIRE_MS = 3000;
+
+// Once locked, a new track only takes over if its center is this close
+// to where the target was last seen
+const MAX_REACQUIRE_DISTANCE = 0.15;
+
+export interface PoseBounds {
+  centerX: number;
+  centerY: number;
+  area: number;
+}
+
+/**
+ * Box around the visible keypoints, null when none are visible
+ */
+export function getPoseBounds(pose: Pose): PoseBounds | null {
+  const visible = pose.keypoints.filter(
+    (keypoint) => keypoint.confidence > 0.3,
+  );
+  if (visible.length === 0) {
+    return null;
+  }
+
+  const xs = visible.map((keypoint) => keypoint.x);
+  const ys = visible.map((keypoint) => keypoint.y);
+  const minX = Math.min(...xs);
+  const maxX = Math.max(...xs);
+  const minY = Math.min(...ys);
+  const maxY = Math.max(...ys);
+
+  return {
+    centerX: (minX + maxX) / 2,
+    centerY: (minY + maxY) / 2,
+    area: (maxX - minX) * (maxY - minY),
+  };
+}
+
+/**
+ * How likely a pose is the user: larger and more central people score
+ * higher, since the user stands closest to the camera
+ */
+export function scoreTargetCandidate(pose: Pose): number {
+  const bounds = getPoseBounds(pose);
+  if (!bounds) {
+    return 0;
+  }
+
+  const distanceFromCenter = Math.hypot(
+    bounds.centerX - 0.5,
+    bounds.centerY - 0.5,
+  );
+  return bounds.area / (1 + 2 * distanceFromCenter);
+}
+
+export function createPoseTargetState(): PoseTargetState {
+  return {
+    targetId: null,
+    lastSeenAt: 0,
+    lastBounds: null,
+    isLocked: false,
+  };
+}
+
+function followPose(
+  state: PoseTargetState,
+  pose: Pose,
+  now: number,
+): PoseTargetState {
+  return {
+    ...state,
+    targetId: pose.id!,
+    lastSeenAt: now,
+    lastBounds: getPoseBounds(pose) ?? state.lastBounds,
+  };
+}
+
+/**
+ * Target state locked onto one person from the start, e.g. a versus player
+ */
+export function lockPoseTarget(
+  pose: Pose,
+  now: number,
+): PoseTargetState {
+  return followPose(
+    { ...createPoseTargetState(), isLocked: true },
+    pose,
+    now,
+  );
+}
+
+/**
+ * Pose closest to the locked target's last position, null when nobody
+ * stands near enough to be the same person
+ */
+function findReturningTarget(
+  state: PoseTargetState,
+  poses: Pose[],
+): Pose | null {
+  const { lastBounds } = state;
+  if (!lastBounds) {
+    return null;
+  }
+
+  let closest: Pose | null = null;
+  let closestDistance = MAX_REACQUIRE_DISTANCE;
+  poses.forEach((pose) => {
+    const bounds = getPoseBounds(pose);
+    if (!bounds) {
+      return;
+    }
+    const distance = Math.hypot(
+      bounds.centerX - lastBounds.centerX,
+      bounds.centerY - lastBounds.centerY,
+    );
+    if (distance <= closestDistance) {
+      closest = pose;
+      closestDistance = distance;
+    }
+  });
+  return closest;
+}
+
+/**
+ * Advance target selection by one frame. Until the workout starts,
+ * whoever makes a control gesture becomes the target. After that a lost
+ * target is only replaced by someone standing where they were
+ */
+export function updatePoseTarget(
+  state: PoseTargetState,
+  poses: Pose[],
+  now: number,
+): PoseTargetState {
+  const tracked = poses.filter((pose) => pose.id !== undefined);
+
+  if (!state.isLocked) {
+    const gesturing = tracked.find(
+      (pose) => detectGesture(pose) !== null,
+    );
+    if (gesturing) {
+      return followPose(state, gesturing, now);
+    }
+  }
+
+  const current = tracked.find((pose) => pose.id === state.targetId);
+  if (current) {
+    return followPose(state, current, now);
+  }
+
+  if (
+    state.targetId !== null &&
+    now - state.lastSeenAt < REACQUIRE_MS
+  ) {
+    return state;
+  }
+
+  // Counting pauses until the target is back rather than switching to a
+  // bystander mid-workout. Locking before anyone was picked, e.g. starting
+  // before stepping into frame, still takes the best candidate below
+  if (state.isLocked && state.lastBounds) {
+    const returning = findReturningTarget(state, tracked);
+    return returning ? followPose(state, returning, now) : state;
+  }
+
+  if (tracked.length === 0) {
+    return { ...state, targetId: null };
+  }
+
+  const best = tracked.reduce((current, pose) =>
+    scoreTargetCandidate(pose) > scoreTargetCandidate(current)
+      ? pose
+      : current,
+  );
+  return followPose(state, best, now);
+}
+
+/**
+ * Separate the target from everyone else in the frame. Without track IDs
+ * the first pose is the target
+ */
+export function splitTargetPose(
+  state: PoseTargetState,
+  poses: Pose[],
+): PoseTargetSplit {
+  const target = poses.some((pose) => pose.id !== undefined)
+    ? (poses.find((pose) => pose.id === state.targetId) ?? null)
+    : (poses[0] ?? null);
+
+  return {
+    target,
+    bystanders: poses.filter((pose) => pose !== target),
+  };
+}
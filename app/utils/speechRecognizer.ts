@@ -0,0 +1,112 @@
+import type { SpeechRecognizer } from '~/types/speech';
+
+// The DOM typings only cover the result types, not the recognizer itself
+interface BrowserSpeechRecognition {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  onresult:
+    | ((event: {
+        resultIndex: number;
+        results: SpeechRecognitionResultList;
+      }) => void)
+    | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+}
+
+type BrowserSpeechRecognitionConstructor =
+  new () => BrowserSpeechRecognition;
+
+// Errors that end listening for good, the rest (e.g. silence) are routine
+const FATAL_ERRORS: Record<string, string> = {
+  'not-allowed': 'Microphone access was denied',
+  'service-not-allowed': 'Speech recognition is not allowed',
+  'audio-capture': 'No microphone was found',
+};
+
+/**
+ * Recognizer backed by the browser SpeechRecognition API, null when the
+ * browser doesn't have one
+ */
+export function createBrowserSpeechRecognizer(): SpeechRecognizer | null {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  const browserWindow = window as unknown as {
+    SpeechRecognition?: BrowserSpeechRecognitionConstructor;
+    webkitSpeechRecognition?: BrowserSpeechRecognitionConstructor;
+  };
+  const Recognition =
+    browserWindow.SpeechRecognition ??
+    browserWindow.webkitSpeechRecognition;
+  if (!Recognition) {
+    return null;
+  }
+
+  const recognition = new Recognition();
+  recognition.continuous = true;
+  recognition.interimResults = false;
+  recognition.lang = 'en-US';
+
+  // Starting a session that is still running throws, so track it here
+  let isRunning = false;
+  let isWanted = false;
+
+  const startSession = () => {
+    try {
+      recognition.start();
+      isRunning = true;
+    } catch (error) {
+      console.error('Speech recognition start error:', error);
+    }
+  };
+
+  const recognizer: SpeechRecognizer = {
+    start: () => {
+      isWanted = true;
+      if (!isRunning) {
+        startSession();
+      }
+    },
+    stop: () => {
+      isWanted = false;
+      if (isRunning) {
+        recognition.stop();
+      }
+    },
+    onTranscript: null,
+    onError: null,
+  };
+
+  recognition.onresult = (event) => {
+    for (let i = event.resultIndex; i < event.results.length; i++) {
+      const result = event.results[i];
+      if (result.isFinal) {
+        recognizer.onTranscript?.(result[0].transcript);
+      }
+    }
+  };
+
+  recognition.onerror = (event) => {
+    const message = FATAL_ERRORS[event.error];
+    if (message) {
+      isWanted = false;
+      recognizer.onError?.(message);
+    }
+  };
+
+  // Browsers end a session after a stretch of silence, keep listening
+  // until told to stop
+  recognition.onend = () => {
+    isRunning = false;
+    if (isWanted) {
+      startSession();
+    }
+  };
+
+  return recognizer;
+}
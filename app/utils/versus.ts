@@ -0,0 +1,178 @@
+import type {
+  Exercise,
+  PlayerLane,
+  Pose,
+  VersusSettings,
+} from '~/types/exercise';
+import {
+  getPoseBounds,
+  lockPoseTarget,
+  updatePoseTarget,
+} from '~/utils/poseTarget';
+import type { PoseTargetState } from '~/utils/poseTarget';
+
+export const PLAYER_LANES: PlayerLane[] = ['left', 'right'];
+
+export const PLAYER_NAMES: Record<PlayerLane, string> = {
+  left: 'Player 1',
+  right: 'Player 2',
+};
+
+export const RACE_TARGETS = [10, 20, 30];
+export const TIME_LIMITS_SECONDS = [30, 60, 120];
+
+export const DEFAULT_VERSUS_SETTINGS: VersusSettings = {
+  mode: 'race',
+  targetReps: 20,
+  durationSeconds: 60,
+};
+
+export interface PlayerPoses {
+  players: Record<PlayerLane, Pose | null>;
+  // Anyone else in view, e.g. a second person in one lane
+  bystanders: Pose[];
+}
+
+// Each player is followed by track ID, null until they are first seen
+export type PlayerTargets = Record<
+  PlayerLane,
+  PoseTargetState | null
+>;
+
+/**
+ * Matches are decided on reps, so holds and cadence drills are left out
+ */
+export function isVersusAvailable(exercise: Exercise): boolean {
+  return (exercise.trackingMode ?? 'reps') === 'reps';
+}
+
+/**
+ * Lane of the screen a pose stands in. The video is shown mirrored, so
+ * the left of the screen is the right of the camera image
+ */
+export function getPlayerLane(pose: Pose): PlayerLane | null {
+  const bounds = getPoseBounds(pose);
+  if (!bounds) {
+    return null;
+  }
+  return bounds.centerX > 0.5 ? 'left' : 'right';
+}
+
+/**
+ * The person in each lane, the largest one there when more than one is
+ * standing in it
+ */
+export function assignPlayerPoses(poses: Pose[]): PlayerPoses {
+  const players: Record<PlayerLane, Pose | null> = {
+    left: null,
+    right: null,
+  };
+  const getArea = (pose: Pose) => getPoseBounds(pose)?.area ?? 0;
+
+  poses.forEach((pose) => {
+    const lane = getPlayerLane(pose);
+    const current = lane && players[lane];
+    if (lane && (!current || getArea(pose) > getArea(current))) {
+      players[lane] = pose;
+    }
+  });
+
+  return {
+    players,
+    bystanders: poses.filter(
+      (pose) => pose !== players.left && pose !== players.right,
+    ),
+  };
+}
+
+export function createPlayerTargets(): PlayerTargets {
+  return { left: null, right: null };
+}
+
+/**
+ * Advance both players by one frame. A lane is bound to whoever stands
+ * in it when first seen and follows that track from then on, so leaning
+ * over the midline or someone walking through can't take a lane over
+ */
+export function updatePlayerTargets(
+  targets: PlayerTargets,
+  poses: Pose[],
+  now: number,
+): PlayerTargets {
+  const tracked = poses.filter((pose) => pose.id !== undefined);
+  const next = { ...targets };
+
+  PLAYER_LANES.forEach((lane) => {
+    const otherLane = lane === 'left' ? 'right' : 'left';
+    const otherId = next[otherLane]?.targetId;
+    const available = tracked.filter((pose) => pose.id !== otherId);
+    const current = next[lane];
+
+    if (current) {
+      next[lane] = updatePoseTarget(current, available, now);
+      return;
+    }
+
+    const { players } = assignPlayerPoses(available);
+    const pose = players[lane];
+    if (pose) {
+      next[lane] = lockPoseTarget(pose, now);
+    }
+  });
+
+  return next;
+}
+
+/**
+ * Separate the players from everyone else in the frame. Without track
+ * IDs players are assigned by lane on every frame
+ */
+export function splitPlayerPoses(
+  targets: PlayerTargets,
+  poses: Pose[],
+): PlayerPoses {
+  if (!poses.some((pose) => pose.id !== undefined)) {
+    return assignPlayerPoses(poses);
+  }
+
+  const findPlayer = (lane: PlayerLane) => {
+    const targetId = targets[lane]?.targetId;
+    return poses.find((pose) => pose.id === targetId) ?? null;
+  };
+  const players = {
+    left: findPlayer('left'),
+    right: findPlayer('right'),
+  };
+
+  return {
+    players,
+    bystanders: poses.filter(
+      (pose) => pose !== players.left && pose !== players.right,
+    ),
+  };
+}
+
+/**
+ * Whether a race target was reached or the time ran out
+ */
+export function isVersusOver(
+  settings: VersusSettings,
+  reps: Record<PlayerLane, number>,
+  seconds: number,
+): boolean {
+  return settings.mode === 'race'
+    ? Math.max(reps.left, reps.right) >= settings.targetReps
+    : seconds >= settings.durationSeconds;
+}
+
+/**
+ * Lane with the most reps, null for a tie
+ */
+export function getVersusWinner(
+  reps: Record<PlayerLane, number>,
+): PlayerLane | null {
+  if (reps.left === reps.right) {
+    return null;
+  }
+  return reps.left > reps.right ? 'left' : 'right';
+}
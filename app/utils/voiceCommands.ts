@@ -0,0 +1,32 @@
+export type VoiceCommand =
+  | 'start'
+  | 'pause'
+  | 'resume'
+  | 'finish'
+  | 'rep-count'
+  | 'mute'
+  | 'unmute';
+
+// Checked in order, the first phrase found in the transcript wins
+const COMMAND_PHRASES: [VoiceCommand, RegExp][] = [
+  ['rep-count', /\bhow many\b|\brep count\b/],
+  ['unmute', /\bunmute\b|\bsound on\b/],
+  ['mute', /\bmute\b|\bbe quiet\b|\bsound off\b/],
+  ['resume', /\bresume\b|\bcontinue\b/],
+  ['pause', /\bpause\b|\bhold on\b/],
+  ['finish', /\bfinish\b|\bend workout\b|\bi'?m done\b/],
+  ['start', /\bstart\b|\bbegin\b|\blet'?s go\b/],
+];
+
+/**
+ * Command spoken in a transcript, null when it doesn't contain one
+ */
+export function parseVoiceCommand(
+  transcript: string,
+): VoiceCommand | null {
+  const phrase = transcript.toLowerCase().trim();
+  const match = COMMAND_PHRASES.find(([, pattern]) =>
+    pattern.test(phrase),
+  );
+  return match ? match[0] : null;
+}